@@ -3,9 +3,12 @@ export { type AcceptEncodingInit, AcceptEncoding } from './lib/accept-encoding.t
 export { type AcceptLanguageInit, AcceptLanguage } from './lib/accept-language.ts';
 export { type CacheControlInit, CacheControl } from './lib/cache-control.ts';
 export { type ContentDispositionInit, ContentDisposition } from './lib/content-disposition.ts';
+export { type ContentRangeInit, ContentRange } from './lib/content-range.ts';
 export { type ContentTypeInit, ContentType } from './lib/content-type.ts';
 export { type CookieInit, Cookie } from './lib/cookie.ts';
+export { type ForwardedElement, type ForwardedInit, Forwarded } from './lib/forwarded.ts';
 export { type IfNoneMatchInit, IfNoneMatch } from './lib/if-none-match.ts';
+export { type RangeInit, type RangeSpec, Range } from './lib/range.ts';
 export { type SetCookieInit, SetCookie } from './lib/set-cookie.ts';
 
 export {
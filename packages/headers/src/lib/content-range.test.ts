@@ -0,0 +1,66 @@
+import * as assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+
+import { ContentRange } from './content-range.ts';
+
+describe('ContentRange', () => {
+  it('initializes with an empty string', () => {
+    let header = new ContentRange('');
+    assert.equal(header.unit, 'bytes');
+    assert.equal(header.start, undefined);
+    assert.equal(header.end, undefined);
+    assert.equal(header.size, undefined);
+  });
+
+  it('initializes with a string', () => {
+    let header = new ContentRange('bytes 0-499/1234');
+    assert.equal(header.unit, 'bytes');
+    assert.equal(header.start, 0);
+    assert.equal(header.end, 499);
+    assert.equal(header.size, 1234);
+  });
+
+  it('initializes with a string with an unknown size', () => {
+    let header = new ContentRange('bytes 0-499/*');
+    assert.equal(header.start, 0);
+    assert.equal(header.end, 499);
+    assert.equal(header.size, undefined);
+  });
+
+  it('initializes with a string for an unsatisfied range', () => {
+    let header = new ContentRange('bytes */1234');
+    assert.equal(header.start, undefined);
+    assert.equal(header.end, undefined);
+    assert.equal(header.size, 1234);
+  });
+
+  it('initializes with an object', () => {
+    let header = new ContentRange({ start: 0, end: 499, size: 1234 });
+    assert.equal(header.unit, 'bytes');
+    assert.equal(header.start, 0);
+    assert.equal(header.end, 499);
+    assert.equal(header.size, 1234);
+  });
+
+  it('initializes with another ContentRange', () => {
+    let header = new ContentRange(new ContentRange('bytes 0-499/1234'));
+    assert.equal(header.toString(), 'bytes 0-499/1234');
+  });
+
+  it('ignores invalid headers', () => {
+    let header = new ContentRange('bytes 0-/1234');
+    assert.equal(header.start, undefined);
+    assert.equal(header.size, undefined);
+    assert.equal(header.toString(), '');
+  });
+
+  it('converts to a string', () => {
+    assert.equal(
+      new ContentRange({ start: 0, end: 499, size: 1234 }).toString(),
+      'bytes 0-499/1234',
+    );
+    assert.equal(new ContentRange({ start: 0, end: 499 }).toString(), 'bytes 0-499/*');
+    assert.equal(new ContentRange({ size: 1234 }).toString(), 'bytes */1234');
+    assert.equal(new ContentRange({}).toString(), '');
+  });
+});
@@ -0,0 +1,69 @@
+import { type HeaderValue } from './header-value.ts';
+
+export interface ContentRangeInit {
+  /**
+   * The unit the range is in. Default is `bytes`.
+   */
+  unit?: string;
+  /**
+   * The index of the first byte in the range. Omitted in responses to unsatisfiable range requests.
+   */
+  start?: number;
+  /**
+   * The index of the last byte in the range (inclusive). Omitted in responses to unsatisfiable range
+   * requests.
+   */
+  end?: number;
+  /**
+   * The total size of the content, or `undefined` if it is unknown.
+   */
+  size?: number;
+}
+
+/**
+ * The value of a `Content-Range` HTTP header.
+ *
+ * [MDN `Content-Range` Reference](https://developer.mozilla.org/en-US/docs/Web/HTTP/Headers/Content-Range)
+ *
+ * [HTTP/1.1 Specification](https://datatracker.ietf.org/doc/html/rfc9110#section-14.4)
+ */
+export class ContentRange implements HeaderValue, ContentRangeInit {
+  unit = 'bytes';
+  start?: number;
+  end?: number;
+  size?: number;
+
+  constructor(init?: string | ContentRangeInit) {
+    if (init) {
+      if (typeof init === 'string') {
+        let match = /^\s*([!#$%&'*+\-.^_`|~0-9A-Za-z]+)\s+(?:(\d+)-(\d+)|\*)\/(\d+|\*)\s*$/.exec(
+          init,
+        );
+        if (match) {
+          this.unit = match[1].toLowerCase();
+          if (match[2] !== undefined) {
+            this.start = parseInt(match[2], 10);
+            this.end = parseInt(match[3], 10);
+          }
+          if (match[4] !== '*') this.size = parseInt(match[4], 10);
+        }
+      } else {
+        if (init.unit) this.unit = init.unit.toLowerCase();
+        this.start = init.start;
+        this.end = init.end;
+        this.size = init.size;
+      }
+    }
+  }
+
+  toString(): string {
+    let hasRange = this.start !== undefined && this.end !== undefined;
+    if (!hasRange && this.size === undefined) {
+      return '';
+    }
+
+    let range = hasRange ? `${this.start}-${this.end}` : '*';
+
+    return `${this.unit} ${range}/${this.size ?? '*'}`;
+  }
+}
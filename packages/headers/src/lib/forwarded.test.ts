@@ -0,0 +1,98 @@
+import * as assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+
+import { Forwarded } from './forwarded.ts';
+
+describe('Forwarded', () => {
+  it('initializes with an empty string', () => {
+    let header = new Forwarded('');
+    assert.deepEqual(header.elements, []);
+  });
+
+  it('initializes with a string', () => {
+    let header = new Forwarded('for=192.0.2.60;proto=http;by=203.0.113.43');
+    assert.deepEqual(header.elements, [{ for: '192.0.2.60', proto: 'http', by: '203.0.113.43' }]);
+  });
+
+  it('initializes with a string with multiple elements', () => {
+    let header = new Forwarded('for=192.0.2.43, for=198.51.100.17;proto=https');
+    assert.deepEqual(header.elements, [
+      { for: '192.0.2.43' },
+      { for: '198.51.100.17', proto: 'https' },
+    ]);
+  });
+
+  it('initializes with an array of elements', () => {
+    let header = new Forwarded([{ for: '192.0.2.43' }, { for: '198.51.100.17' }]);
+    assert.deepEqual(header.elements, [{ for: '192.0.2.43' }, { for: '198.51.100.17' }]);
+  });
+
+  it('initializes with an object', () => {
+    let header = new Forwarded({ elements: [{ for: '192.0.2.43', host: 'example.com' }] });
+    assert.deepEqual(header.elements, [{ for: '192.0.2.43', host: 'example.com' }]);
+  });
+
+  it('initializes with another Forwarded', () => {
+    let header = new Forwarded(new Forwarded('for=192.0.2.43'));
+    assert.deepEqual(header.elements, [{ for: '192.0.2.43' }]);
+  });
+
+  it('handles quoted values', () => {
+    let header = new Forwarded('For="[2001:db8:cafe::17]:4711";host="example.com"');
+    assert.deepEqual(header.elements, [{ for: '[2001:db8:cafe::17]:4711', host: 'example.com' }]);
+  });
+
+  it('handles escaped characters in quoted values', () => {
+    let header = new Forwarded('for="a\\"b\\\\c"');
+    assert.deepEqual(header.elements, [{ for: 'a"b\\c' }]);
+  });
+
+  it('handles unquoted values with a port', () => {
+    let header = new Forwarded('for=192.0.2.43:8080');
+    assert.deepEqual(header.elements, [{ for: '192.0.2.43:8080' }]);
+  });
+
+  it('handles obfuscated and unknown identifiers', () => {
+    let header = new Forwarded('for=_hidden, for=unknown;by=_SEVKISEK');
+    assert.deepEqual(header.elements, [{ for: '_hidden' }, { for: 'unknown', by: '_SEVKISEK' }]);
+  });
+
+  it('handles whitespace and empty list elements', () => {
+    let header = new Forwarded(' for=192.0.2.43 ; proto=https ,, for=198.51.100.17; ');
+    assert.deepEqual(header.elements, [
+      { for: '192.0.2.43', proto: 'https' },
+      { for: '198.51.100.17' },
+    ]);
+  });
+
+  it('ignores unknown parameters', () => {
+    let header = new Forwarded('for=192.0.2.43;secret=abc');
+    assert.deepEqual(header.elements, [{ for: '192.0.2.43' }]);
+  });
+
+  it('uses the first occurrence of a parameter in an element', () => {
+    let header = new Forwarded('for=192.0.2.43;for=198.51.100.17');
+    assert.deepEqual(header.elements, [{ for: '192.0.2.43' }]);
+  });
+
+  it('drops malformed elements', () => {
+    let header = new Forwarded('for=192.0.2.43;garbage, for="unterminated, for=198.51.100.17');
+    assert.deepEqual(header.elements, [{ for: '198.51.100.17' }]);
+  });
+
+  it('converts to a string', () => {
+    let header = new Forwarded([
+      { proto: 'https', for: '192.0.2.43', host: 'example.com' },
+      { for: '[2001:db8:cafe::17]:4711', by: '_proxy' },
+    ]);
+    assert.equal(
+      header.toString(),
+      'for=192.0.2.43;host=example.com;proto=https, for="[2001:db8:cafe::17]:4711";by=_proxy',
+    );
+  });
+
+  it('converts an empty header to an empty string', () => {
+    assert.equal(new Forwarded().toString(), '');
+    assert.equal(new Forwarded([{}]).toString(), '');
+  });
+});
@@ -0,0 +1,134 @@
+import { type HeaderValue } from './header-value.ts';
+
+/**
+ * The information one proxy added to a `Forwarded` header about the request it forwarded.
+ */
+export interface ForwardedElement {
+  /**
+   * The interface where the request came in to the proxy server.
+   */
+  by?: string;
+  /**
+   * The client that sent the request to the proxy. This is usually an IP address, optionally with a
+   * port like `192.0.2.43:47011` or `[2001:db8:cafe::17]:4711`, but may also be `unknown` or an
+   * obfuscated identifier like `_hidden`.
+   */
+  for?: string;
+  /**
+   * The `Host` request header as received by the proxy.
+   */
+  host?: string;
+  /**
+   * The protocol used to make the request to the proxy, e.g. `http` or `https`.
+   */
+  proto?: string;
+}
+
+export interface ForwardedInit {
+  /**
+   * The elements of the header, one for each proxy the request passed through, in the order they
+   * were added (i.e. the proxy closest to the client is first).
+   */
+  elements: ForwardedElement[];
+}
+
+/**
+ * The value of a `Forwarded` HTTP header.
+ *
+ * [MDN `Forwarded` Reference](https://developer.mozilla.org/en-US/docs/Web/HTTP/Headers/Forwarded)
+ *
+ * [RFC 7239](https://datatracker.ietf.org/doc/html/rfc7239)
+ */
+export class Forwarded implements HeaderValue, ForwardedInit {
+  elements: ForwardedElement[] = [];
+
+  constructor(init?: string | ForwardedElement[] | ForwardedInit) {
+    if (init) {
+      if (typeof init === 'string') {
+        this.elements = parseElements(init);
+      } else if (Array.isArray(init)) {
+        this.elements = init.map((element) => ({ ...element }));
+      } else {
+        this.elements = init.elements.map((element) => ({ ...element }));
+      }
+    }
+  }
+
+  toString(): string {
+    return this.elements
+      .map((element) =>
+        parameterNames
+          .filter((name) => element[name] !== undefined)
+          .map((name) => `${name}=${quoteValue(element[name]!)}`)
+          .join(';'),
+      )
+      .filter((element) => element !== '')
+      .join(', ');
+  }
+}
+
+const parameterNames = ['for', 'by', 'host', 'proto'] as const;
+
+type ParameterName = (typeof parameterNames)[number];
+
+function isParameterName(name: string): name is ParameterName {
+  return (parameterNames as readonly string[]).includes(name);
+}
+
+const tokenPattern = /^[!#$%&'*+\-.^_`|~0-9A-Za-z]+$/;
+
+// Matches a single `name=value` pair and the delimiter that follows it. Unquoted values are allowed
+// to contain characters that are not valid in a token (like the `:` in `for=192.0.2.43:8080`) since
+// some proxies send them that way.
+const pairPattern =
+  /[ \t]*([!#$%&'*+\-.^_`|~0-9A-Za-z]+)[ \t]*=[ \t]*(?:"((?:[^"\\]|\\.)*)"|([^;,\s"]*))[ \t]*(;|,|$)/y;
+
+function parseElements(value: string): ForwardedElement[] {
+  let elements: ForwardedElement[] = [];
+  let element: ForwardedElement = {};
+  let index = 0;
+
+  while (index < value.length) {
+    // Empty list elements are allowed, see https://datatracker.ietf.org/doc/html/rfc9110#section-5.6.1
+    let skip = /[ \t]*,/y;
+    skip.lastIndex = index;
+    if (skip.test(value)) {
+      index = skip.lastIndex;
+      continue;
+    }
+
+    pairPattern.lastIndex = index;
+    let match = pairPattern.exec(value);
+
+    if (match == null) {
+      if (value.slice(index).trim() === '') break;
+      // Drop the malformed element and continue with the next one
+      let next = value.indexOf(',', index);
+      element = {};
+      if (next === -1) break;
+      index = next + 1;
+      continue;
+    }
+
+    let name = match[1].toLowerCase();
+    // Parameter names must not occur more than once per element, so the first one wins
+    if (isParameterName(name) && element[name] === undefined) {
+      element[name] = match[2] !== undefined ? match[2].replace(/\\(.)/g, '$1') : match[3];
+    }
+
+    index = pairPattern.lastIndex;
+
+    if (match[4] !== ';') {
+      if (Object.keys(element).length > 0) elements.push(element);
+      element = {};
+    }
+  }
+
+  if (Object.keys(element).length > 0) elements.push(element);
+
+  return elements;
+}
+
+function quoteValue(value: string): string {
+  return tokenPattern.test(value) ? value : `"${value.replace(/["\\]/g, '\\$&')}"`;
+}
@@ -0,0 +1,95 @@
+import * as assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+
+import { Range } from './range.ts';
+
+describe('Range', () => {
+  it('initializes with an empty string', () => {
+    let header = new Range('');
+    assert.equal(header.unit, 'bytes');
+    assert.deepEqual(header.ranges, []);
+  });
+
+  it('initializes with a string', () => {
+    let header = new Range('bytes=0-499');
+    assert.equal(header.unit, 'bytes');
+    assert.deepEqual(header.ranges, [{ start: 0, end: 499 }]);
+  });
+
+  it('initializes with a string with multiple ranges', () => {
+    let header = new Range('bytes=0-499, 1000-, -500');
+    assert.deepEqual(header.ranges, [{ start: 0, end: 499 }, { start: 1000 }, { end: 500 }]);
+  });
+
+  it('initializes with an object', () => {
+    let header = new Range({ ranges: [{ start: 0, end: 499 }] });
+    assert.equal(header.unit, 'bytes');
+    assert.deepEqual(header.ranges, [{ start: 0, end: 499 }]);
+
+    let header2 = new Range({ unit: 'Items', ranges: [{ start: 5 }] });
+    assert.equal(header2.unit, 'items');
+  });
+
+  it('initializes with another Range', () => {
+    let header = new Range(new Range('bytes=0-499'));
+    assert.deepEqual(header.ranges, [{ start: 0, end: 499 }]);
+  });
+
+  it('handles other units', () => {
+    let header = new Range('Items=0-4');
+    assert.equal(header.unit, 'items');
+    assert.deepEqual(header.ranges, [{ start: 0, end: 4 }]);
+  });
+
+  it('ignores empty list elements', () => {
+    let header = new Range('bytes=0-1,,2-3,');
+    assert.deepEqual(header.ranges, [
+      { start: 0, end: 1 },
+      { start: 2, end: 3 },
+    ]);
+  });
+
+  let invalidTests = ['bytes', 'bytes=', 'bytes=-', 'bytes=a-b', 'bytes=5-2', 'bytes=0-1,x', '0-1'];
+
+  invalidTests.forEach((value) => {
+    it(`ignores the invalid header ${JSON.stringify(value)}`, () => {
+      let header = new Range(value);
+      assert.deepEqual(header.ranges, []);
+    });
+  });
+
+  let indexesTests = [
+    { value: 'bytes=0-4', size: 13, indexes: [[0, 5]] },
+    { value: 'bytes=7-', size: 13, indexes: [[7, 13]] },
+    { value: 'bytes=-6', size: 13, indexes: [[7, 13]] },
+    { value: 'bytes=7-100', size: 13, indexes: [[7, 13]] },
+    { value: 'bytes=-100', size: 13, indexes: [[0, 13]] },
+    { value: 'bytes=13-', size: 13, indexes: [] },
+    { value: 'bytes=-0', size: 13, indexes: [] },
+    { value: 'bytes=-5', size: 0, indexes: [] },
+    {
+      value: 'bytes=0-1, 20-30, 4-5',
+      size: 13,
+      indexes: [
+        [0, 2],
+        [4, 6],
+      ],
+    },
+  ];
+
+  indexesTests.forEach(({ value, size, indexes }) => {
+    it(`gets the indexes of ${JSON.stringify(value)} in content of size ${size}`, () => {
+      let header = new Range(value);
+      assert.deepEqual(header.getIndexes(size), indexes);
+      assert.equal(header.canSatisfy(size), indexes.length > 0);
+    });
+  });
+
+  it('converts to a string', () => {
+    let header = new Range('bytes=0-499, 1000-, -500');
+    assert.equal(header.toString(), 'bytes=0-499,1000-,-500');
+
+    let header2 = new Range('bytes=');
+    assert.equal(header2.toString(), '');
+  });
+});
@@ -0,0 +1,131 @@
+import { type HeaderValue } from './header-value.ts';
+
+/**
+ * A single range in a `Range` header.
+ *
+ * - `{ start: 0, end: 499 }` is the first 500 bytes (`0-499`)
+ * - `{ start: 500 }` is everything from byte 500 on (`500-`)
+ * - `{ end: 500 }` is the last 500 bytes (`-500`)
+ */
+export interface RangeSpec {
+  /**
+   * The index of the first byte in the range. If omitted, `end` is the number of bytes at the end
+   * of the content.
+   */
+  start?: number;
+  /**
+   * The index of the last byte in the range (inclusive). If omitted, the range continues to the
+   * end of the content.
+   */
+  end?: number;
+}
+
+export interface RangeInit {
+  /**
+   * The unit the ranges are in. Default is `bytes`.
+   */
+  unit?: string;
+  /**
+   * The ranges that are requested.
+   */
+  ranges: RangeSpec[];
+}
+
+/**
+ * The value of a `Range` HTTP header.
+ *
+ * [MDN `Range` Reference](https://developer.mozilla.org/en-US/docs/Web/HTTP/Headers/Range)
+ *
+ * [HTTP/1.1 Specification](https://datatracker.ietf.org/doc/html/rfc9110#section-14.2)
+ */
+export class Range implements HeaderValue, RangeInit {
+  unit = 'bytes';
+  ranges: RangeSpec[] = [];
+
+  constructor(init?: string | RangeInit) {
+    if (init) {
+      if (typeof init === 'string') {
+        let match = /^\s*([!#$%&'*+\-.^_`|~0-9A-Za-z]+)=(.*)$/.exec(init);
+        if (match) {
+          let ranges = parseRanges(match[2]);
+          // A header with any invalid range is invalid as a whole
+          if (ranges != null) {
+            this.unit = match[1].toLowerCase();
+            this.ranges = ranges;
+          }
+        }
+      } else {
+        if (init.unit) this.unit = init.unit.toLowerCase();
+        this.ranges = init.ranges.map((range) => ({ ...range }));
+      }
+    }
+  }
+
+  /**
+   * Checks if any of the ranges overlap content of the given size.
+   *
+   * @param size The size of the content.
+   * @returns `true` if at least one range can be satisfied, `false` otherwise.
+   */
+  canSatisfy(size: number): boolean {
+    return this.getIndexes(size).length > 0;
+  }
+
+  /**
+   * Resolves the ranges that overlap content of the given size to `[start, end]` indexes, where
+   * `end` is exclusive like in `Blob.slice()`. Ranges that do not overlap the content are left out.
+   *
+   * @param size The size of the content.
+   * @returns The indexes of each satisfiable range, in the order they were requested.
+   */
+  getIndexes(size: number): [number, number][] {
+    let indexes: [number, number][] = [];
+
+    for (let range of this.ranges) {
+      if (range.start === undefined) {
+        if (range.end === undefined || range.end === 0 || size === 0) continue;
+        indexes.push([Math.max(0, size - range.end), size]);
+      } else {
+        if (range.start >= size) continue;
+        let end = range.end === undefined ? size : Math.min(range.end + 1, size);
+        indexes.push([range.start, end]);
+      }
+    }
+
+    return indexes;
+  }
+
+  toString(): string {
+    if (this.ranges.length === 0) {
+      return '';
+    }
+
+    let ranges = this.ranges.map((range) => `${range.start ?? ''}-${range.end ?? ''}`);
+
+    return `${this.unit}=${ranges.join(',')}`;
+  }
+}
+
+function parseRanges(value: string): RangeSpec[] | null {
+  let ranges: RangeSpec[] = [];
+
+  for (let part of value.split(',')) {
+    part = part.trim();
+    // Empty list elements are allowed, see https://datatracker.ietf.org/doc/html/rfc9110#section-5.6.1
+    if (part === '') continue;
+
+    let match = /^(\d*)-(\d*)$/.exec(part);
+    if (!match || (match[1] === '' && match[2] === '')) return null;
+
+    let range: RangeSpec = {};
+    if (match[1] !== '') range.start = parseInt(match[1], 10);
+    if (match[2] !== '') range.end = parseInt(match[2], 10);
+    if (range.start !== undefined && range.end !== undefined && range.end < range.start) {
+      return null;
+    }
+
+    ranges.push(range);
+  }
+
+  return ranges.length > 0 ? ranges : null;
+}
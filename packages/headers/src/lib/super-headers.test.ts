@@ -6,10 +6,13 @@ import { AcceptEncoding } from './accept-encoding.ts';
 import { AcceptLanguage } from './accept-language.ts';
 import { CacheControl } from './cache-control.ts';
 import { ContentDisposition } from './content-disposition.ts';
+import { ContentRange } from './content-range.ts';
 import { ContentType } from './content-type.ts';
 import { Cookie } from './cookie.ts';
+import { Forwarded } from './forwarded.ts';
 import { SuperHeaders } from './super-headers.ts';
 import { IfNoneMatch } from './if-none-match.ts';
+import { Range } from './range.ts';
 
 describe('SuperHeaders', () => {
   it('is an instance of Headers', () => {
@@ -220,6 +223,11 @@ describe('SuperHeaders', () => {
       assert.equal(headers.get('Content-Length'), '42');
     });
 
+    it('handles the contentRange property', () => {
+      let headers = new SuperHeaders({ contentRange: { start: 0, end: 499, size: 1234 } });
+      assert.equal(headers.get('Content-Range'), 'bytes 0-499/1234');
+    });
+
     it('handles the contentType property', () => {
       let headers = new SuperHeaders({
         contentType: { mediaType: 'text/plain', charset: 'utf-8' },
@@ -253,6 +261,11 @@ describe('SuperHeaders', () => {
       assert.equal(headers.get('Expires'), 'Fri, 01 Jan 2021 00:00:00 GMT');
     });
 
+    it('handles the forwarded property', () => {
+      let headers = new SuperHeaders({ forwarded: [{ for: '192.0.2.43', proto: 'https' }] });
+      assert.equal(headers.get('Forwarded'), 'for=192.0.2.43;proto=https');
+    });
+
     it('handles the host property', () => {
       let headers = new SuperHeaders({ host: 'example.com' });
       assert.equal(headers.get('Host'), 'example.com');
@@ -283,6 +296,11 @@ describe('SuperHeaders', () => {
       assert.equal(headers.get('Location'), 'https://example.com');
     });
 
+    it('handles the range property', () => {
+      let headers = new SuperHeaders({ range: { ranges: [{ start: 0, end: 499 }, { end: 500 }] } });
+      assert.equal(headers.get('Range'), 'bytes=0-499,-500');
+    });
+
     it('handles the referer property', () => {
       let headers = new SuperHeaders({ referer: 'https://example.com' });
       assert.equal(headers.get('Referer'), 'https://example.com');
@@ -494,6 +512,24 @@ describe('SuperHeaders', () => {
       assert.equal(headers.contentLength, null);
     });
 
+    it('supports the contentRange property', () => {
+      let headers = new SuperHeaders();
+
+      assert.ok(headers.contentRange instanceof ContentRange);
+
+      headers.contentRange = 'bytes 0-499/1234';
+      assert.equal(headers.contentRange.start, 0);
+      assert.equal(headers.contentRange.end, 499);
+      assert.equal(headers.contentRange.size, 1234);
+
+      headers.contentRange = { size: 1234 };
+      assert.equal(headers.get('Content-Range'), 'bytes */1234');
+
+      headers.contentRange = null;
+      assert.ok(headers.contentRange instanceof ContentRange);
+      assert.equal(headers.contentRange.toString(), '');
+    });
+
     it('supports the contentType property', () => {
       let headers = new SuperHeaders();
 
@@ -584,6 +620,25 @@ describe('SuperHeaders', () => {
       assert.equal(headers.expires, null);
     });
 
+    it('supports the forwarded property', () => {
+      let headers = new SuperHeaders();
+
+      assert.ok(headers.forwarded instanceof Forwarded);
+
+      headers.forwarded = 'for=192.0.2.43, for=198.51.100.17;proto=https';
+      assert.deepEqual(headers.forwarded.elements, [
+        { for: '192.0.2.43' },
+        { for: '198.51.100.17', proto: 'https' },
+      ]);
+
+      headers.forwarded = { elements: [{ for: '[2001:db8:cafe::17]' }] };
+      assert.equal(headers.get('Forwarded'), 'for="[2001:db8:cafe::17]"');
+
+      headers.forwarded = null;
+      assert.ok(headers.forwarded instanceof Forwarded);
+      assert.equal(headers.forwarded.toString(), '');
+    });
+
     it('supports the host property', () => {
       let headers = new SuperHeaders();
 
@@ -666,6 +721,22 @@ describe('SuperHeaders', () => {
       assert.equal(headers.location, null);
     });
 
+    it('supports the range property', () => {
+      let headers = new SuperHeaders();
+
+      assert.ok(headers.range instanceof Range);
+
+      headers.range = 'bytes=0-499, 1000-';
+      assert.deepEqual(headers.range.ranges, [{ start: 0, end: 499 }, { start: 1000 }]);
+
+      headers.range = { ranges: [{ end: 500 }] };
+      assert.equal(headers.get('Range'), 'bytes=-500');
+
+      headers.range = null;
+      assert.ok(headers.range instanceof Range);
+      assert.equal(headers.range.toString(), '');
+    });
+
     it('supports the referer property', () => {
       let headers = new SuperHeaders();
 
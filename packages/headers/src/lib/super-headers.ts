@@ -3,11 +3,14 @@ import { type AcceptEncodingInit, AcceptEncoding } from './accept-encoding.ts';
 import { type AcceptLanguageInit, AcceptLanguage } from './accept-language.ts';
 import { type CacheControlInit, CacheControl } from './cache-control.ts';
 import { type ContentDispositionInit, ContentDisposition } from './content-disposition.ts';
+import { type ContentRangeInit, ContentRange } from './content-range.ts';
 import { type ContentTypeInit, ContentType } from './content-type.ts';
 import { type CookieInit, Cookie } from './cookie.ts';
+import { type ForwardedElement, type ForwardedInit, Forwarded } from './forwarded.ts';
 import { canonicalHeaderName } from './header-names.ts';
 import { type HeaderValue } from './header-value.ts';
 import { type IfNoneMatchInit, IfNoneMatch } from './if-none-match.ts';
+import { type RangeInit, Range } from './range.ts';
 import { type SetCookieInit, SetCookie } from './set-cookie.ts';
 import { isIterable, quoteEtag } from './utils.ts';
 
@@ -58,6 +61,10 @@ interface SuperHeadersPropertyInit {
    * The [`Content-Length`](https://developer.mozilla.org/en-US/docs/Web/HTTP/Headers/Content-Length) header value.
    */
   contentLength?: string | number;
+  /**
+   * The [`Content-Range`](https://developer.mozilla.org/en-US/docs/Web/HTTP/Headers/Content-Range) header value.
+   */
+  contentRange?: string | ContentRangeInit;
   /**
    * The [`Content-Type`](https://developer.mozilla.org/en-US/docs/Web/HTTP/Headers/Content-Type) header value.
    */
@@ -78,6 +85,10 @@ interface SuperHeadersPropertyInit {
    * The [`Expires`](https://developer.mozilla.org/en-US/docs/Web/HTTP/Headers/Expires) header value.
    */
   expires?: string | DateInit;
+  /**
+   * The [`Forwarded`](https://developer.mozilla.org/en-US/docs/Web/HTTP/Headers/Forwarded) header value.
+   */
+  forwarded?: string | ForwardedElement[] | ForwardedInit;
   /**
    * The [`Host`](https://developer.mozilla.org/en-US/docs/Web/HTTP/Headers/Host) header value.
    */
@@ -102,6 +113,10 @@ interface SuperHeadersPropertyInit {
    * The [`Location`](https://developer.mozilla.org/en-US/docs/Web/HTTP/Headers/Location) header value.
    */
   location?: string;
+  /**
+   * The [`Range`](https://developer.mozilla.org/en-US/docs/Web/HTTP/Headers/Range) header value.
+   */
+  range?: string | RangeInit;
   /**
    * The [`Referer`](https://developer.mozilla.org/en-US/docs/Web/HTTP/Headers/Referer) header value.
    */
@@ -129,17 +144,20 @@ const ContentDispositionKey = 'content-disposition';
 const ContentEncodingKey = 'content-encoding';
 const ContentLanguageKey = 'content-language';
 const ContentLengthKey = 'content-length';
+const ContentRangeKey = 'content-range';
 const ContentTypeKey = 'content-type';
 const CookieKey = 'cookie';
 const DateKey = 'date';
 const ETagKey = 'etag';
 const ExpiresKey = 'expires';
+const ForwardedKey = 'forwarded';
 const HostKey = 'host';
 const IfModifiedSinceKey = 'if-modified-since';
 const IfNoneMatchKey = 'if-none-match';
 const IfUnmodifiedSinceKey = 'if-unmodified-since';
 const LastModifiedKey = 'last-modified';
 const LocationKey = 'location';
+const RangeKey = 'range';
 const RefererKey = 'referer';
 const SetCookieKey = 'set-cookie';
 
@@ -517,6 +535,22 @@ export class SuperHeaders extends Headers {
     this.#setNumberValue(ContentLengthKey, value);
   }
 
+  /**
+   * The `Content-Range` header indicates where the content of a partial response belongs in the
+   * full resource.
+   *
+   * [MDN `Content-Range` Reference](https://developer.mozilla.org/en-US/docs/Web/HTTP/Headers/Content-Range)
+   *
+   * [HTTP/1.1 Specification](https://datatracker.ietf.org/doc/html/rfc9110#section-14.4)
+   */
+  get contentRange(): ContentRange {
+    return this.#getHeaderValue(ContentRangeKey, ContentRange);
+  }
+
+  set contentRange(value: string | ContentRangeInit | undefined | null) {
+    this.#setHeaderValue(ContentRangeKey, ContentRange, value);
+  }
+
   /**
    * The `Content-Type` header indicates the media type of the resource.
    *
@@ -593,6 +627,22 @@ export class SuperHeaders extends Headers {
     this.#setDateValue(ExpiresKey, value);
   }
 
+  /**
+   * The `Forwarded` header contains information about the proxies a request passed through on its
+   * way to the server, like the address of the client and the protocol it used.
+   *
+   * [MDN `Forwarded` Reference](https://developer.mozilla.org/en-US/docs/Web/HTTP/Headers/Forwarded)
+   *
+   * [RFC 7239](https://datatracker.ietf.org/doc/html/rfc7239#section-4)
+   */
+  get forwarded(): Forwarded {
+    return this.#getHeaderValue(ForwardedKey, Forwarded);
+  }
+
+  set forwarded(value: string | ForwardedElement[] | ForwardedInit | undefined | null) {
+    this.#setHeaderValue(ForwardedKey, Forwarded, value);
+  }
+
   /**
    * The `Host` header specifies the domain name of the server and (optionally) the TCP port number.
    *
@@ -685,6 +735,21 @@ export class SuperHeaders extends Headers {
     this.#setStringValue(LocationKey, value);
   }
 
+  /**
+   * The `Range` header indicates the parts of a resource that the client wants the server to send.
+   *
+   * [MDN `Range` Reference](https://developer.mozilla.org/en-US/docs/Web/HTTP/Headers/Range)
+   *
+   * [HTTP/1.1 Specification](https://datatracker.ietf.org/doc/html/rfc9110#section-14.2)
+   */
+  get range(): Range {
+    return this.#getHeaderValue(RangeKey, Range);
+  }
+
+  set range(value: string | RangeInit | undefined | null) {
+    this.#setHeaderValue(RangeKey, Range, value);
+  }
+
   /**
    * The `Referer` header contains the address of the previous web page from which a link to the
    * currently requested page was followed.
@@ -0,0 +1,105 @@
+import * as assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+
+import {
+  type AccessLogEntry,
+  createAccessLogger,
+  formatCombinedLog,
+  formatCommonLog,
+  formatJsonLog,
+} from './access-log.ts';
+
+function createEntry(headers?: HeadersInit, overrides?: Partial<AccessLogEntry>): AccessLogEntry {
+  return {
+    request: new Request('http://example.com/index.html?page=2', { headers }),
+    client: { address: '127.0.0.1', family: 'IPv4', port: 12345 },
+    httpVersion: '1.1',
+    status: 200,
+    bytes: 2326,
+    startTime: new Date('2000-10-10T13:55:36Z'),
+    duration: 12.5,
+    ...overrides,
+  };
+}
+
+describe('formatCommonLog', () => {
+  it('formats an entry', () => {
+    assert.equal(
+      formatCommonLog(createEntry()),
+      '127.0.0.1 - - [10/Oct/2000:13:55:36 +0000] "GET /index.html?page=2 HTTP/1.1" 200 2326',
+    );
+  });
+
+  it('uses - for empty bodies', () => {
+    assert.equal(
+      formatCommonLog(createEntry(undefined, { status: 304, bytes: 0, httpVersion: '2.0' })),
+      '127.0.0.1 - - [10/Oct/2000:13:55:36 +0000] "GET /index.html?page=2 HTTP/2.0" 304 -',
+    );
+  });
+});
+
+describe('formatCombinedLog', () => {
+  it('formats an entry', () => {
+    let entry = createEntry({ Referer: 'https://example.com/', 'User-Agent': 'Mozilla/5.0' });
+    assert.equal(
+      formatCombinedLog(entry),
+      '127.0.0.1 - - [10/Oct/2000:13:55:36 +0000] "GET /index.html?page=2 HTTP/1.1" 200 2326 "https://example.com/" "Mozilla/5.0"',
+    );
+  });
+
+  it('uses - for missing headers', () => {
+    assert.ok(formatCombinedLog(createEntry()).endsWith(' 2326 "-" "-"'));
+  });
+
+  it('escapes quotes and control characters', () => {
+    let entry = createEntry({ 'User-Agent': 'evil" \\agent' });
+    assert.ok(formatCombinedLog(entry).endsWith(' "evil\\" \\\\agent"'));
+  });
+});
+
+describe('formatJsonLog', () => {
+  it('formats an entry', () => {
+    let entry = createEntry({ 'User-Agent': 'Mozilla/5.0' });
+    assert.deepEqual(JSON.parse(formatJsonLog(entry)), {
+      time: '2000-10-10T13:55:36.000Z',
+      method: 'GET',
+      url: 'http://example.com/index.html?page=2',
+      httpVersion: '1.1',
+      status: 200,
+      bytes: 2326,
+      duration: 12.5,
+      clientAddress: '127.0.0.1',
+      clientPort: 12345,
+      referer: null,
+      userAgent: 'Mozilla/5.0',
+    });
+  });
+});
+
+describe('createAccessLogger', () => {
+  let formatTests = [
+    { format: 'common', expected: formatCommonLog(createEntry()) },
+    { format: 'combined', expected: formatCombinedLog(createEntry()) },
+    { format: 'json', expected: formatJsonLog(createEntry()) },
+    { format: undefined, expected: formatCombinedLog(createEntry()) },
+  ] as const;
+
+  formatTests.forEach(({ format, expected }) => {
+    it(`writes lines in the ${format} format`, () => {
+      let lines: string[] = [];
+      let logger = createAccessLogger({ format, write: (line) => lines.push(line) });
+      logger(createEntry());
+      assert.deepEqual(lines, [expected]);
+    });
+  });
+
+  it('uses a custom format', () => {
+    let lines: string[] = [];
+    let logger = createAccessLogger({
+      format: (entry) => `${entry.request.method} ${entry.status} ${entry.duration}ms`,
+      write: (line) => lines.push(line),
+    });
+    logger(createEntry());
+    assert.deepEqual(lines, ['GET 200 12.5ms']);
+  });
+});
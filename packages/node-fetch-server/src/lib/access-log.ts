@@ -0,0 +1,193 @@
+import type { ClientAddress } from './fetch-handler.ts';
+
+/**
+ * Information about a request and the response that was sent for it.
+ */
+export interface AccessLogEntry {
+  /**
+   * The request.
+   */
+  request: Request;
+  /**
+   * The client that sent the request.
+   */
+  client: ClientAddress;
+  /**
+   * The HTTP version of the request, e.g. `1.1` or `2.0`.
+   */
+  httpVersion: string;
+  /**
+   * The status code of the response.
+   */
+  status: number;
+  /**
+   * The number of bytes in the response body that were sent to the client. This does not include
+   * the response headers.
+   */
+  bytes: number;
+  /**
+   * The time the request was received.
+   */
+  startTime: Date;
+  /**
+   * The number of milliseconds it took to handle the request and send the response.
+   */
+  duration: number;
+}
+
+/**
+ * A function that is called after a response is sent.
+ */
+export interface AccessLogger {
+  (entry: AccessLogEntry): void;
+}
+
+/**
+ * Formats an access log entry as a line of text.
+ */
+export interface AccessLogFormatter {
+  (entry: AccessLogEntry): string;
+}
+
+export interface AccessLoggerOptions {
+  /**
+   * The format of each line:
+   *
+   * - `'common'`: the [Common Log Format](https://httpd.apache.org/docs/current/logs.html#common)
+   * - `'combined'`: the [Combined Log Format](https://httpd.apache.org/docs/current/logs.html#combined),
+   *   which adds the `Referer` and `User-Agent` headers to the Common Log Format
+   * - `'json'`: a JSON object, for [JSON lines](https://jsonlines.org/) output
+   * - a function that formats the entry
+   *
+   * Default is `'combined'`.
+   */
+  format?: 'common' | 'combined' | 'json' | AccessLogFormatter;
+  /**
+   * A function that writes a line to the log. Default is to write to `process.stdout`.
+   */
+  write?: (line: string) => void;
+}
+
+/**
+ * Creates an access logger that writes a line for each request to a log.
+ *
+ * Example:
+ *
+ * ```ts
+ * import * as fs from 'node:fs';
+ * import { createAccessLogger, createRequestListener } from '@mjackson/node-fetch-server';
+ *
+ * let log = fs.createWriteStream('access.log', { flags: 'a' });
+ *
+ * let server = http.createServer(
+ *   createRequestListener(handler, {
+ *     accessLog: createAccessLogger({
+ *       format: 'json',
+ *       write: (line) => log.write(line + '\n'),
+ *     }),
+ *   }),
+ * );
+ * ```
+ *
+ * @param options Access logger options.
+ * @returns An access logger.
+ */
+export function createAccessLogger(options?: AccessLoggerOptions): AccessLogger {
+  let format = options?.format ?? 'combined';
+  let formatter =
+    format === 'common'
+      ? formatCommonLog
+      : format === 'combined'
+        ? formatCombinedLog
+        : format === 'json'
+          ? formatJsonLog
+          : format;
+  let write = options?.write ?? ((line: string) => process.stdout.write(line + '\n'));
+
+  return (entry) => {
+    write(formatter(entry));
+  };
+}
+
+/**
+ * Formats an access log entry in the [Common Log Format](https://httpd.apache.org/docs/current/logs.html#common).
+ *
+ * ```
+ * 127.0.0.1 - - [10/Oct/2000:13:55:36 +0000] "GET /index.html HTTP/1.1" 200 2326
+ * ```
+ *
+ * @param entry The access log entry.
+ * @returns A line of text.
+ */
+export function formatCommonLog(entry: AccessLogEntry): string {
+  let url = new URL(entry.request.url);
+  let requestLine = `${entry.request.method} ${url.pathname}${url.search} HTTP/${entry.httpVersion}`;
+
+  return [
+    entry.client.address,
+    '-',
+    '-',
+    `[${formatDate(entry.startTime)}]`,
+    quote(requestLine),
+    entry.status,
+    entry.bytes === 0 ? '-' : entry.bytes,
+  ].join(' ');
+}
+
+/**
+ * Formats an access log entry in the [Combined Log Format](https://httpd.apache.org/docs/current/logs.html#combined).
+ *
+ * ```
+ * 127.0.0.1 - - [10/Oct/2000:13:55:36 +0000] "GET /index.html HTTP/1.1" 200 2326 "https://example.com/" "Mozilla/5.0"
+ * ```
+ *
+ * @param entry The access log entry.
+ * @returns A line of text.
+ */
+export function formatCombinedLog(entry: AccessLogEntry): string {
+  let referer = entry.request.headers.get('Referer') ?? '-';
+  let userAgent = entry.request.headers.get('User-Agent') ?? '-';
+
+  return `${formatCommonLog(entry)} ${quote(referer)} ${quote(userAgent)}`;
+}
+
+/**
+ * Formats an access log entry as a JSON object on a single line.
+ *
+ * @param entry The access log entry.
+ * @returns A line of text.
+ */
+export function formatJsonLog(entry: AccessLogEntry): string {
+  return JSON.stringify({
+    time: entry.startTime.toISOString(),
+    method: entry.request.method,
+    url: entry.request.url,
+    httpVersion: entry.httpVersion,
+    status: entry.status,
+    bytes: entry.bytes,
+    duration: entry.duration,
+    clientAddress: entry.client.address,
+    clientPort: entry.client.port,
+    referer: entry.request.headers.get('Referer'),
+    userAgent: entry.request.headers.get('User-Agent'),
+  });
+}
+
+const months = ['Jan', 'Feb', 'Mar', 'Apr', 'May', 'Jun', 'Jul', 'Aug', 'Sep', 'Oct', 'Nov', 'Dec'];
+
+// Formats a date like 10/Oct/2000:13:55:36 +0000, always in UTC
+function formatDate(date: Date): string {
+  let pad = (n: number) => String(n).padStart(2, '0');
+  return (
+    `${pad(date.getUTCDate())}/${months[date.getUTCMonth()]}/${date.getUTCFullYear()}:` +
+    `${pad(date.getUTCHours())}:${pad(date.getUTCMinutes())}:${pad(date.getUTCSeconds())} +0000`
+  );
+}
+
+// Escapes quotes and control characters, so a header can't break the line or start a new one
+function quote(value: string): string {
+  let escaped = value
+    .replace(/["\\]/g, '\\$&')
+    .replace(/[\x00-\x1f\x7f]/g, (c) => `\\x${c.charCodeAt(0).toString(16).padStart(2, '0')}`);
+  return `"${escaped}"`;
+}
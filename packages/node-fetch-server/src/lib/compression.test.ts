@@ -0,0 +1,195 @@
+import * as assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+
+import * as zlib from 'node:zlib';
+
+import { compression, type CompressionOptions } from './compression.ts';
+import { type ClientAddress, type FetchHandler } from './fetch-handler.ts';
+import { compose } from './middleware.ts';
+
+const client: ClientAddress = { address: '127.0.0.1', family: 'IPv4', port: 12345 };
+
+const text = 'Hello, world! '.repeat(100);
+
+async function fetch(
+  response: Response | (() => Response),
+  requestHeaders?: HeadersInit,
+  options?: CompressionOptions,
+): Promise<Response> {
+  let handler: FetchHandler = typeof response === 'function' ? response : () => response;
+  let request = new Request('http://localhost/', { headers: requestHeaders });
+  return compose([compression(options)], handler)(request, client);
+}
+
+function textResponse(body = text, headers?: HeadersInit): Response {
+  return new Response(body, { headers: { 'Content-Type': 'text/plain', ...headers } });
+}
+
+async function decompress(response: Response): Promise<string> {
+  let buffer = Buffer.from(await response.arrayBuffer());
+  switch (response.headers.get('Content-Encoding')) {
+    case 'br':
+      return zlib.brotliDecompressSync(buffer).toString();
+    case 'gzip':
+      return zlib.gunzipSync(buffer).toString();
+    case 'deflate':
+      return zlib.inflateSync(buffer).toString();
+    default:
+      return buffer.toString();
+  }
+}
+
+describe('compression', () => {
+  let negotiationTests = [
+    { acceptEncoding: 'gzip', encoding: 'gzip' },
+    { acceptEncoding: 'deflate', encoding: 'deflate' },
+    { acceptEncoding: 'br', encoding: 'br' },
+    { acceptEncoding: 'gzip, deflate, br', encoding: 'br' },
+    { acceptEncoding: 'gzip, deflate, br;q=0.5', encoding: 'gzip' },
+    { acceptEncoding: '*', encoding: 'br' },
+    { acceptEncoding: 'identity', encoding: null },
+    { acceptEncoding: 'compress', encoding: null },
+    { acceptEncoding: undefined, encoding: null },
+  ];
+
+  negotiationTests.forEach(({ acceptEncoding, encoding }) => {
+    it(`uses ${encoding} for Accept-Encoding: ${acceptEncoding}`, async () => {
+      let headers =
+        acceptEncoding === undefined ? undefined : { 'Accept-Encoding': acceptEncoding };
+      let response = await fetch(textResponse(), headers);
+
+      assert.equal(response.headers.get('Content-Encoding'), encoding);
+      assert.equal(response.headers.get('Vary'), 'Accept-Encoding');
+      assert.equal(await decompress(response), text);
+    });
+  });
+
+  it('uses the encodings option', async () => {
+    let response = await fetch(
+      textResponse(),
+      { 'Accept-Encoding': 'gzip, deflate, br' },
+      { encodings: ['deflate', 'gzip'] },
+    );
+    assert.equal(response.headers.get('Content-Encoding'), 'deflate');
+  });
+
+  it('removes Content-Length and keeps the status and other headers', async () => {
+    let response = await fetch(
+      new Response(text, {
+        status: 201,
+        statusText: 'Created',
+        headers: {
+          'Content-Type': 'text/plain',
+          'Content-Length': String(text.length),
+          'X-Custom': 'value',
+        },
+      }),
+      { 'Accept-Encoding': 'gzip' },
+    );
+
+    assert.equal(response.status, 201);
+    assert.equal(response.statusText, 'Created');
+    assert.equal(response.headers.get('Content-Length'), null);
+    assert.equal(response.headers.get('X-Custom'), 'value');
+  });
+
+  it('makes strong ETags weak', async () => {
+    let response = await fetch(textResponse(text, { ETag: '"abc"' }), {
+      'Accept-Encoding': 'gzip',
+    });
+    assert.equal(response.headers.get('ETag'), 'W/"abc"');
+  });
+
+  it('adds Accept-Encoding to an existing Vary header', async () => {
+    let response = await fetch(textResponse(text, { Vary: 'Cookie' }), {
+      'Accept-Encoding': 'gzip',
+    });
+    assert.equal(response.headers.get('Vary'), 'Cookie, Accept-Encoding');
+
+    response = await fetch(textResponse(text, { Vary: 'accept-encoding' }), {
+      'Accept-Encoding': 'gzip',
+    });
+    assert.equal(response.headers.get('Vary'), 'accept-encoding');
+  });
+
+  let skipTests: { name: string; response: () => Response }[] = [
+    { name: 'responses without a body', response: () => new Response(null, { status: 204 }) },
+    {
+      name: 'partial responses',
+      response: () =>
+        new Response(text, { status: 206, headers: { 'Content-Type': 'text/plain' } }),
+    },
+    {
+      name: 'responses that are already encoded',
+      response: () => textResponse(text, { 'Content-Encoding': 'br' }),
+    },
+    {
+      name: 'responses with Cache-Control: no-transform',
+      response: () => textResponse(text, { 'Cache-Control': 'public, no-transform' }),
+    },
+    {
+      name: 'responses with a media type that is not compressible',
+      response: () => new Response(text, { headers: { 'Content-Type': 'image/png' } }),
+    },
+    {
+      name: 'responses without a media type',
+      response: () => new Response(new Blob([text])),
+    },
+    {
+      name: 'responses that are smaller than the threshold',
+      response: () => textResponse('Hello', { 'Content-Length': '5' }),
+    },
+  ];
+
+  skipTests.forEach(({ name, response }) => {
+    it(`does not compress ${name}`, async () => {
+      let result = await fetch(response, { 'Accept-Encoding': 'gzip' });
+      assert.equal(result.headers.get('Content-Encoding') === 'gzip', false);
+      assert.equal(result.headers.get('Vary'), null);
+    });
+  });
+
+  it('compresses media types from the compressible option', async () => {
+    let response = await fetch(
+      () => new Response(text, { headers: { 'Content-Type': 'image/png' } }),
+      { 'Accept-Encoding': 'gzip' },
+      { compressible: (mediaType) => mediaType.startsWith('image/') },
+    );
+    assert.equal(response.headers.get('Content-Encoding'), 'gzip');
+  });
+
+  it('compresses JSON', async () => {
+    let response = await fetch(Response.json({ text }), { 'Accept-Encoding': 'gzip' });
+    assert.equal(response.headers.get('Content-Encoding'), 'gzip');
+    assert.deepEqual(JSON.parse(await decompress(response)), { text });
+  });
+
+  it('flushes each chunk of a streaming response', async () => {
+    let controller!: ReadableStreamDefaultController<Uint8Array>;
+    let body = new ReadableStream<Uint8Array>({
+      start(c) {
+        controller = c;
+      },
+    });
+    let response = await fetch(
+      new Response(body, { headers: { 'Content-Type': 'text/event-stream' } }),
+      { 'Accept-Encoding': 'gzip' },
+    );
+    let reader = response.body!.getReader();
+
+    controller.enqueue(new TextEncoder().encode('data: first\n\n'));
+    let compressed: Uint8Array[] = [];
+    let output = '';
+    while (output === '') {
+      let { value } = await reader.read();
+      compressed.push(value!);
+      output = zlib
+        .gunzipSync(Buffer.concat(compressed), { finishFlush: zlib.constants.Z_SYNC_FLUSH })
+        .toString();
+    }
+    assert.equal(output, 'data: first\n\n');
+
+    controller.close();
+    await reader.cancel();
+  });
+});
@@ -0,0 +1,152 @@
+import { Duplex } from 'node:stream';
+import * as zlib from 'node:zlib';
+import { AcceptEncoding, SuperHeaders } from '@mjackson/headers';
+
+import type { Middleware } from './middleware.ts';
+
+export type CompressionEncoding = 'br' | 'gzip' | 'deflate';
+
+export interface CompressionOptions {
+  /**
+   * A function that returns `true` if responses with the given media type should be compressed.
+   * By default text, JSON, JavaScript, XML and SVG responses are compressed.
+   */
+  compressible?: (mediaType: string) => boolean;
+  /**
+   * The encodings to use, in order of preference when the client accepts more than one equally.
+   * Default is `['br', 'gzip', 'deflate']`.
+   */
+  encodings?: CompressionEncoding[];
+  /**
+   * Responses with a `Content-Length` smaller than this number of bytes are not compressed, since
+   * compressing them saves little and may even make them bigger. Default is `1024`.
+   */
+  threshold?: number;
+}
+
+/**
+ * Creates middleware that compresses responses using the encoding the client prefers in its
+ * [`Accept-Encoding`](https://developer.mozilla.org/en-US/docs/Web/HTTP/Headers/Accept-Encoding)
+ * header.
+ *
+ * Responses are not compressed when they:
+ *
+ * - have no body, or are `206 Partial Content` responses
+ * - already have a `Content-Encoding` header
+ * - have a `Cache-Control: no-transform` header
+ * - have a media type that doesn't compress well, like images and video
+ * - are smaller than the `threshold`
+ *
+ * Compressed responses are streamed, and each chunk the handler sends is flushed to the client as
+ * soon as it is compressed, so streaming responses like server-sent events keep working.
+ *
+ * Example:
+ *
+ * ```ts
+ * import { compose, compression, createRequestListener } from '@mjackson/node-fetch-server';
+ *
+ * let handler = compose([compression()], async (request) => {
+ *   return Response.json(await getLotsOfData());
+ * });
+ *
+ * http.createServer(createRequestListener(handler));
+ * ```
+ *
+ * @param options Compression options.
+ * @returns A compression middleware.
+ */
+export function compression(options?: CompressionOptions): Middleware {
+  let compressible = options?.compressible ?? isCompressible;
+  let encodings = options?.encodings ?? ['br', 'gzip', 'deflate'];
+  let threshold = options?.threshold ?? 1024;
+
+  return async (request, client, next) => {
+    let response = await next();
+
+    if (response.body == null || response.status === 206) return response;
+
+    let headers = new SuperHeaders(response.headers);
+    if (headers.has('Content-Encoding') || headers.cacheControl.noTransform) return response;
+
+    let mediaType = headers.contentType.mediaType;
+    if (mediaType == null || !compressible(mediaType)) return response;
+
+    let contentLength = headers.contentLength;
+    if (contentLength != null && contentLength < threshold) return response;
+
+    // The response depends on Accept-Encoding from here on, even if it isn't compressed
+    addVary(headers, 'Accept-Encoding');
+
+    let acceptEncoding = new AcceptEncoding(request.headers.get('Accept-Encoding') ?? '');
+    let encoding = acceptEncoding.getPreferred(encodings) as CompressionEncoding | null;
+    if (encoding == null) {
+      return new Response(response.body, {
+        status: response.status,
+        statusText: response.statusText,
+        headers,
+      });
+    }
+
+    headers.contentEncoding = encoding;
+    headers.delete('Content-Length');
+    // The compressed body is a different representation, so strong validators no longer apply
+    let etag = headers.etag;
+    if (etag != null && !etag.startsWith('W/')) headers.etag = `W/${etag}`;
+
+    let compressor = Duplex.toWeb(createCompressor(encoding)) as ReadableWritablePair<
+      Uint8Array,
+      Uint8Array
+    >;
+
+    return new Response(response.body.pipeThrough(compressor), {
+      status: response.status,
+      statusText: response.statusText,
+      headers,
+    });
+  };
+}
+
+function createCompressor(encoding: CompressionEncoding): Duplex {
+  switch (encoding) {
+    case 'br':
+      return zlib.createBrotliCompress({ flush: zlib.constants.BROTLI_OPERATION_FLUSH });
+    case 'gzip':
+      return zlib.createGzip({ flush: zlib.constants.Z_SYNC_FLUSH });
+    case 'deflate':
+      return zlib.createDeflate({ flush: zlib.constants.Z_SYNC_FLUSH });
+  }
+}
+
+function addVary(headers: SuperHeaders, name: string): void {
+  let vary = headers.get('Vary');
+  if (vary == null) {
+    headers.set('Vary', name);
+  } else {
+    let names = vary.split(',').map((value) => value.trim().toLowerCase());
+    if (!names.includes('*') && !names.includes(name.toLowerCase())) {
+      headers.set('Vary', `${vary}, ${name}`);
+    }
+  }
+}
+
+const compressibleTypes = new Set([
+  'application/javascript',
+  'application/json',
+  'application/manifest+json',
+  'application/wasm',
+  'application/x-javascript',
+  'application/xhtml+xml',
+  'application/xml',
+  'image/svg+xml',
+  'image/x-icon',
+]);
+
+function isCompressible(mediaType: string): boolean {
+  let type = mediaType.toLowerCase();
+  return (
+    type.startsWith('text/') ||
+    type.endsWith('+json') ||
+    type.endsWith('+xml') ||
+    compressibleTypes.has(type)
+  );
+}
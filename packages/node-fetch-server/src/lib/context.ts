@@ -0,0 +1,116 @@
+/**
+ * A key for a value in a `RequestContext`. The type parameter is the type of the value.
+ */
+export interface ContextKey<T> {
+  /**
+   * A description of the key, for debugging.
+   */
+  readonly name: string;
+  /**
+   * The value of the key in contexts where it has not been set.
+   */
+  readonly defaultValue: T;
+}
+
+/**
+ * Creates a new key for values in a `RequestContext`. Each key is unique, even if two keys have the
+ * same name.
+ *
+ * Example:
+ *
+ * ```ts
+ * let UserKey = createContextKey<User | null>('user', null);
+ *
+ * let auth: Middleware = async (request, client, next) => {
+ *   getContext(request).set(UserKey, await getUser(request));
+ *   return next();
+ * };
+ *
+ * let handler: FetchHandler = (request) => {
+ *   let user = getContext(request).get(UserKey);
+ *   return new Response(user ? `Hello, ${user.name}!` : 'Hello, stranger!');
+ * };
+ * ```
+ *
+ * @param name A description of the key, for debugging.
+ * @param defaultValue The value of the key in contexts where it has not been set.
+ * @returns A new context key.
+ */
+export function createContextKey<T>(name: string): ContextKey<T | undefined>;
+export function createContextKey<T>(name: string, defaultValue: T): ContextKey<T>;
+export function createContextKey<T>(name: string, defaultValue?: T): ContextKey<T | undefined> {
+  return { name, defaultValue };
+}
+
+/**
+ * Typed storage for values that belong to a single request, like the current user or the time the
+ * request started. Middleware uses it to pass values to the middleware and handlers after it.
+ */
+export class RequestContext {
+  #values = new Map<ContextKey<unknown>, unknown>();
+
+  /**
+   * Returns the value of a key, or the key's default value if it has not been set.
+   *
+   * @param key The key to get.
+   * @returns The value of the key.
+   */
+  get<T>(key: ContextKey<T>): T {
+    return this.#values.has(key) ? (this.#values.get(key) as T) : key.defaultValue;
+  }
+
+  /**
+   * Returns `true` if a value has been set for a key.
+   *
+   * @param key The key to check.
+   * @returns `true` if the key has a value, `false` otherwise.
+   */
+  has(key: ContextKey<unknown>): boolean {
+    return this.#values.has(key);
+  }
+
+  /**
+   * Sets the value of a key.
+   *
+   * @param key The key to set.
+   * @param value The value of the key.
+   */
+  set<T>(key: ContextKey<T>, value: T): void {
+    this.#values.set(key, value);
+  }
+
+  /**
+   * Removes the value of a key, so it has its default value again.
+   *
+   * @param key The key to remove.
+   */
+  delete(key: ContextKey<unknown>): void {
+    this.#values.delete(key);
+  }
+}
+
+const contexts = new WeakMap<Request, RequestContext>();
+
+/**
+ * Returns the context of a request, creating it the first time it is used.
+ *
+ * Contexts are stored by request object, so they work with any server or runtime that calls a
+ * fetch handler. When middleware passes a new request to `next()`, the new request shares the
+ * context of the original one.
+ *
+ * @param request The request.
+ * @returns The context of the request.
+ */
+export function getContext(request: Request): RequestContext {
+  let context = contexts.get(request);
+  if (context == null) {
+    context = new RequestContext();
+    contexts.set(request, context);
+  }
+  return context;
+}
+
+// Gives a request passed to `next()` the context of the request it replaces
+export function shareContext(from: Request, to: Request): void {
+  if (from !== to) contexts.set(to, getContext(from));
+}
@@ -0,0 +1,93 @@
+import * as assert from 'node:assert/strict';
+import { describe, it, mock } from 'node:test';
+
+import type * as http from 'node:http';
+import * as stream from 'node:stream';
+
+import { getEarlyHintLinks, sendEarlyHints } from './early-hints.ts';
+import { createRequest } from './request-listener.ts';
+
+describe('getEarlyHintLinks', () => {
+  let tests: { value: string | null; expected: string[] }[] = [
+    { value: null, expected: [] },
+    {
+      value: '</styles.css>; rel=preload; as=style',
+      expected: ['</styles.css>; rel=preload; as=style'],
+    },
+    {
+      value: '</app.js>; rel=modulepreload, <https://cdn.example.com>; rel="preconnect"',
+      expected: ['</app.js>; rel=modulepreload', '<https://cdn.example.com>; rel="preconnect"'],
+    },
+    {
+      value: '</page?a=1,2>; rel=preload; as=fetch; crossorigin, </next>; rel=next',
+      expected: ['</page?a=1,2>; rel=preload; as=fetch; crossorigin'],
+    },
+    {
+      value: '</font.woff2>; rel="preload prefetch"; as=font',
+      expected: ['</font.woff2>; rel="preload prefetch"; as=font'],
+    },
+    { value: '</>; rel=canonical', expected: [] },
+  ];
+
+  tests.forEach(({ value, expected }) => {
+    it(`parses ${JSON.stringify(value)}`, () => {
+      assert.deepEqual(getEarlyHintLinks(value), expected);
+    });
+  });
+});
+
+describe('sendEarlyHints', () => {
+  function createMockPair(httpVersionMinor = 1) {
+    let req = Object.assign(new stream.Readable({ read() {} }), {
+      url: '/',
+      method: 'GET',
+      headers: {},
+      rawHeaders: [],
+      socket: {},
+      httpVersionMajor: 1,
+      httpVersionMinor,
+    }) as unknown as http.IncomingMessage;
+    let res = Object.assign(new stream.Writable(), {
+      req,
+      headersSent: false,
+      writeEarlyHints() {},
+    }) as unknown as http.ServerResponse;
+
+    return { req, res, writeEarlyHints: mock.method(res, 'writeEarlyHints', () => {}) };
+  }
+
+  it('sends the preload links in a 103 response', () => {
+    let { req, res, writeEarlyHints } = createMockPair();
+    let request = createRequest(req, res);
+
+    let sent = sendEarlyHints(request, {
+      Link: '</styles.css>; rel=preload; as=style, </about>; rel=prefetch',
+    });
+
+    assert.equal(sent, true);
+    assert.deepEqual(writeEarlyHints.mock.calls[0].arguments[0], {
+      link: ['</styles.css>; rel=preload; as=style'],
+    });
+  });
+
+  it('does nothing when there are no preload links', () => {
+    let { req, res, writeEarlyHints } = createMockPair();
+    let request = createRequest(req, res);
+
+    assert.equal(sendEarlyHints(request, { Link: '</about>; rel=prefetch' }), false);
+    assert.equal(writeEarlyHints.mock.calls.length, 0);
+  });
+
+  it('does nothing for HTTP/1.0 clients', () => {
+    let { req, res, writeEarlyHints } = createMockPair(0);
+    let request = createRequest(req, res);
+
+    assert.equal(sendEarlyHints(request, { Link: '</styles.css>; rel=preload' }), false);
+    assert.equal(writeEarlyHints.mock.calls.length, 0);
+  });
+
+  it('does nothing for requests without a server response', () => {
+    let request = new Request('http://localhost/');
+    assert.equal(sendEarlyHints(request, { Link: '</styles.css>; rel=preload' }), false);
+  });
+});
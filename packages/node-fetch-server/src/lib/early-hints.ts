@@ -0,0 +1,67 @@
+import { getContext } from './context.ts';
+import { ServerResponseKey } from './request-listener.ts';
+
+/**
+ * Sends a [`103 Early Hints`](https://developer.mozilla.org/en-US/docs/Web/HTTP/Status/103)
+ * response to the client with the `preload`, `modulepreload` and `preconnect` links in the given
+ * headers, so the browser can start loading those resources while the handler is still working on
+ * the final response. Works with both HTTP/1.1 and HTTP/2 servers.
+ *
+ * Early hints are only sent for requests from `createRequestListener()` (or `createRequest()`),
+ * before the final response is sent, to clients that use HTTP/1.1 or later. Otherwise this does
+ * nothing, so it is safe to call from handlers that also run elsewhere.
+ *
+ * Example:
+ *
+ * ```ts
+ * async function handler(request: Request) {
+ *   let headers = new Headers({
+ *     Link: '</styles.css>; rel=preload; as=style, </app.js>; rel=modulepreload',
+ *   });
+ *   sendEarlyHints(request, headers);
+ *
+ *   let html = await renderPage(request);
+ *
+ *   headers.set('Content-Type', 'text/html');
+ *   return new Response(html, { headers });
+ * }
+ * ```
+ *
+ * @param request The request to send early hints for.
+ * @param headers Headers with the `Link` header values to send.
+ * @returns `true` if early hints were sent, `false` otherwise.
+ */
+export function sendEarlyHints(request: Request, headers: HeadersInit): boolean {
+  let res = getContext(request).get(ServerResponseKey);
+  if (res == null || res.headersSent) return false;
+  // Informational responses are not allowed in HTTP/1.0
+  if (res.req.httpVersionMajor === 1 && res.req.httpVersionMinor === 0) return false;
+
+  let links = getEarlyHintLinks(new Headers(headers).get('Link'));
+  if (links.length === 0) return false;
+
+  res.writeEarlyHints({ link: links });
+
+  return true;
+}
+
+const earlyHintRels = ['preload', 'modulepreload', 'preconnect'];
+
+/**
+ * Returns the links in a `Link` header value that are useful as early hints.
+ */
+export function getEarlyHintLinks(value: string | null): string[] {
+  if (value == null) return [];
+
+  let links: string[] = [];
+  // URLs and quoted parameter values may contain commas
+  for (let [link] of value.matchAll(/<[^>]*>(?:[^,"]|"[^"]*")*/g)) {
+    let rel = /;\s*rel\s*=\s*(?:"([^"]*)"|([^;\s]*))/i.exec(link);
+    let rels = (rel?.[1] ?? rel?.[2] ?? '').toLowerCase().split(/\s+/);
+    if (rels.some((item) => earlyHintRels.includes(item))) {
+      links.push(link.trim());
+    }
+  }
+
+  return links;
+}
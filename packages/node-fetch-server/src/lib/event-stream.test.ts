@@ -0,0 +1,127 @@
+import * as assert from 'node:assert/strict';
+import { describe, it, mock } from 'node:test';
+
+import { EventStream } from './event-stream.ts';
+
+function createRequest(headers?: HeadersInit, signal?: AbortSignal): Request {
+  return new Request('http://localhost/events', { headers, signal });
+}
+
+async function readAll(stream: EventStream): Promise<string> {
+  return stream.response.text();
+}
+
+async function readChunk(reader: ReadableStreamDefaultReader<Uint8Array>): Promise<string> {
+  let { value } = await reader.read();
+  return new TextDecoder().decode(value);
+}
+
+describe('EventStream', () => {
+  it('responds with an event stream', () => {
+    let stream = new EventStream(createRequest(), { headers: { 'X-Custom': 'value' } });
+    let headers = stream.response.headers;
+
+    assert.equal(stream.response.status, 200);
+    assert.equal(headers.get('Content-Type'), 'text/event-stream; charset=utf-8');
+    assert.equal(headers.get('Cache-Control'), 'no-cache, no-transform');
+    assert.equal(headers.get('X-Accel-Buffering'), 'no');
+    assert.equal(headers.get('X-Custom'), 'value');
+
+    stream.close();
+  });
+
+  let sendTests: { name: string; event: Parameters<EventStream['send']>[0]; expected: string }[] = [
+    { name: 'a string', event: 'Hello', expected: 'data: Hello\n\n' },
+    { name: 'data', event: { data: 'Hello' }, expected: 'data: Hello\n\n' },
+    {
+      name: 'all fields',
+      event: { id: '42', event: 'update', retry: 5000, data: '{"count":1}' },
+      expected: 'id: 42\nevent: update\nretry: 5000\ndata: {"count":1}\n\n',
+    },
+    {
+      name: 'data with multiple lines',
+      event: { data: 'one\ntwo\r\nthree\rfour' },
+      expected: 'data: one\ndata: two\ndata: three\ndata: four\n\n',
+    },
+    { name: 'empty data', event: { data: '' }, expected: 'data: \n\n' },
+  ];
+
+  sendTests.forEach(({ name, event, expected }) => {
+    it(`sends ${name}`, async () => {
+      let stream = new EventStream(createRequest(), { heartbeat: 0 });
+      stream.send(event);
+      stream.close();
+      assert.equal(await readAll(stream), expected);
+    });
+  });
+
+  it('sends each event as soon as it is sent', async () => {
+    let stream = new EventStream(createRequest(), { heartbeat: 0 });
+    let reader = stream.response.body!.getReader();
+
+    stream.send('one');
+    assert.equal(await readChunk(reader), 'data: one\n\n');
+    stream.send('two');
+    assert.equal(await readChunk(reader), 'data: two\n\n');
+
+    stream.close();
+  });
+
+  it('rejects ids and event types with newlines', () => {
+    let stream = new EventStream(createRequest(), { heartbeat: 0 });
+    assert.throws(() => stream.send({ id: '1\n2', data: 'x' }), TypeError);
+    assert.throws(() => stream.send({ event: 'a\rb', data: 'x' }), TypeError);
+    assert.throws(() => stream.send({ retry: -1, data: 'x' }), TypeError);
+    stream.close();
+  });
+
+  it('sends the retry option first', async () => {
+    let stream = new EventStream(createRequest(), { heartbeat: 0, retry: 3000 });
+    stream.send('Hello');
+    stream.close();
+    assert.equal(await readAll(stream), 'retry: 3000\n\ndata: Hello\n\n');
+  });
+
+  it('sends heartbeat comments', async () => {
+    mock.timers.enable({ apis: ['setInterval'] });
+    try {
+      let stream = new EventStream(createRequest(), { heartbeat: 1000 });
+      mock.timers.tick(2000);
+      stream.close();
+      assert.equal(await readAll(stream), ':\n\n:\n\n');
+    } finally {
+      mock.timers.reset();
+    }
+  });
+
+  it('reads the Last-Event-ID header', () => {
+    let stream = new EventStream(createRequest({ 'Last-Event-ID': '42' }), { heartbeat: 0 });
+    assert.equal(stream.lastEventId, '42');
+    stream.close();
+
+    let stream2 = new EventStream(createRequest(), { heartbeat: 0 });
+    assert.equal(stream2.lastEventId, null);
+    stream2.close();
+  });
+
+  it('closes when the request signal is aborted', async () => {
+    let controller = new AbortController();
+    let stream = new EventStream(createRequest(undefined, controller.signal));
+    let onAbort = mock.fn();
+    stream.signal.addEventListener('abort', onAbort);
+
+    stream.send('one');
+    controller.abort();
+    stream.send('two');
+
+    assert.equal(stream.closed, true);
+    assert.equal(onAbort.mock.calls.length, 1);
+    assert.equal(await readAll(stream), 'data: one\n\n');
+  });
+
+  it('closes when the response body is canceled', async () => {
+    let stream = new EventStream(createRequest());
+    await stream.response.body!.cancel();
+    assert.equal(stream.closed, true);
+  });
+});
@@ -0,0 +1,199 @@
+/**
+ * An event to send to the client in an `EventStream`.
+ *
+ * [MDN Reference](https://developer.mozilla.org/en-US/docs/Web/API/Server-sent_events/Using_server-sent_events#event_stream_format)
+ */
+export interface ServerSentEvent {
+  /**
+   * The data of the event. Data with multiple lines is sent as multiple `data` fields, and the
+   * client joins them back together with newlines.
+   */
+  data: string;
+  /**
+   * The type of the event. Clients receive events without a type as `message` events.
+   */
+  event?: string;
+  /**
+   * The ID of the event. The client sends the ID of the last event it received in the
+   * `Last-Event-ID` header when it reconnects.
+   */
+  id?: string;
+  /**
+   * The number of milliseconds the client should wait before reconnecting after the connection is
+   * lost.
+   */
+  retry?: number;
+}
+
+export interface EventStreamOptions {
+  /**
+   * The number of milliseconds between heartbeat comments, which keep proxies and load balancers
+   * from closing a connection that has been idle for a while. Set to `0` to disable heartbeats.
+   * Default is `15000` (15 seconds).
+   */
+  heartbeat?: number;
+  /**
+   * Headers to add to the response.
+   */
+  headers?: HeadersInit;
+  /**
+   * The number of milliseconds the client should wait before reconnecting after the connection is
+   * lost. Sent to the client before any events.
+   */
+  retry?: number;
+}
+
+/**
+ * A [server-sent events](https://developer.mozilla.org/en-US/docs/Web/API/Server-sent_events)
+ * stream, for sending events to an
+ * [`EventSource`](https://developer.mozilla.org/en-US/docs/Web/API/EventSource) in the browser.
+ *
+ * The stream is closed when the request's `signal` is aborted (e.g. because the client went away),
+ * or when `close()` is called. Use `stream.signal` to stop sending events when that happens.
+ *
+ * Example:
+ *
+ * ```ts
+ * import { EventStream } from '@mjackson/node-fetch-server';
+ *
+ * async function handler(request: Request) {
+ *   let stream = new EventStream(request);
+ *
+ *   let unsubscribe = subscribe((update) => {
+ *     stream.send({ id: update.id, event: 'update', data: JSON.stringify(update) });
+ *   }, stream.lastEventId);
+ *
+ *   stream.signal.addEventListener('abort', unsubscribe);
+ *
+ *   return stream.response;
+ * }
+ * ```
+ */
+export class EventStream {
+  /**
+   * The ID of the last event the client received before it reconnected, from the
+   * [`Last-Event-ID`](https://html.spec.whatwg.org/multipage/server-sent-events.html#last-event-id)
+   * request header. `null` when the client is connecting for the first time.
+   */
+  readonly lastEventId: string | null;
+  /**
+   * The response to return from the handler.
+   */
+  readonly response: Response;
+
+  #controller!: ReadableStreamDefaultController<Uint8Array>;
+  #abortController = new AbortController();
+  #heartbeatTimer?: NodeJS.Timeout;
+  #encoder = new TextEncoder();
+
+  /**
+   * @param request The request to respond to.
+   * @param options Event stream options.
+   */
+  constructor(request: Request, options?: EventStreamOptions) {
+    this.lastEventId = request.headers.get('Last-Event-ID');
+
+    let body = new ReadableStream<Uint8Array>({
+      start: (controller) => {
+        this.#controller = controller;
+      },
+      cancel: () => {
+        this.close();
+      },
+    });
+
+    let headers = new Headers(options?.headers);
+    headers.set('Content-Type', 'text/event-stream; charset=utf-8');
+    // Events must reach the client as soon as they are sent, so tell compression middleware and
+    // proxies (X-Accel-Buffering is for nginx) not to buffer the response
+    headers.set('Cache-Control', 'no-cache, no-transform');
+    headers.set('X-Accel-Buffering', 'no');
+
+    this.response = new Response(body, { headers });
+
+    if (options?.retry !== undefined) {
+      this.#write(`retry: ${formatRetry(options.retry)}\n\n`);
+    }
+
+    let heartbeat = options?.heartbeat ?? 15_000;
+    if (heartbeat > 0) {
+      this.#heartbeatTimer = setInterval(() => this.#write(':\n\n'), heartbeat);
+      this.#heartbeatTimer.unref();
+    }
+
+    if (request.signal.aborted) {
+      this.close();
+    } else {
+      request.signal.addEventListener('abort', () => this.close(), { once: true });
+    }
+  }
+
+  /**
+   * `true` if the stream has been closed.
+   */
+  get closed(): boolean {
+    return this.#abortController.signal.aborted;
+  }
+
+  /**
+   * A signal that is aborted when the stream is closed.
+   */
+  get signal(): AbortSignal {
+    return this.#abortController.signal;
+  }
+
+  /**
+   * Sends an event to the client. Does nothing if the stream is closed.
+   *
+   * @param event The event to send, or a string to send as the `data` of a `message` event.
+   */
+  send(event: ServerSentEvent | string): void {
+    if (typeof event === 'string') event = { data: event };
+
+    let message = '';
+    if (event.id !== undefined) message += `id: ${checkField('id', event.id)}\n`;
+    if (event.event !== undefined) message += `event: ${checkField('event', event.event)}\n`;
+    if (event.retry !== undefined) message += `retry: ${formatRetry(event.retry)}\n`;
+    for (let line of event.data.split(/\r\n|\r|\n/)) {
+      message += `data: ${line}\n`;
+    }
+
+    this.#write(message + '\n');
+  }
+
+  /**
+   * Closes the stream. The client will try to reconnect unless it is closed too, so send an event
+   * that tells the client to stop first if that is what you want.
+   */
+  close(): void {
+    if (this.closed) return;
+
+    clearInterval(this.#heartbeatTimer);
+    this.#abortController.abort();
+
+    try {
+      this.#controller.close();
+    } catch {
+      // The stream was canceled
+    }
+  }
+
+  #write(text: string): void {
+    if (this.closed) return;
+    this.#controller.enqueue(this.#encoder.encode(text));
+  }
+}
+
+function checkField(name: string, value: string): string {
+  if (/[\r\n\0]/.test(value)) {
+    throw new TypeError(`Event ${name} must not contain newlines or NUL characters`);
+  }
+  return value;
+}
+
+function formatRetry(retry: number): number {
+  if (!Number.isInteger(retry) || retry < 0) {
+    throw new TypeError(`Invalid retry: ${retry}`);
+  }
+  return retry;
+}
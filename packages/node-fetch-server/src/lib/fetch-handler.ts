@@ -29,6 +29,16 @@ export interface ErrorHandler {
   (error: unknown): void | Response | Promise<void | Response>;
 }
 
+/**
+ * A function that decides whether the client should send the body of a request with an
+ * [`Expect: 100-continue`](https://developer.mozilla.org/en-US/docs/Web/HTTP/Headers/Expect) header.
+ * May return a response to reject the request without receiving the body, or `undefined` to send a
+ * `100 Continue` response and handle the request as usual.
+ */
+export interface ContinueHandler {
+  (request: Request, client: ClientAddress): void | Response | Promise<void | Response>;
+}
+
 /**
  * A function that handles an incoming request and returns a response.
  *
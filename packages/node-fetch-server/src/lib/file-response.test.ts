@@ -0,0 +1,128 @@
+import * as assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+
+import { createFileResponse } from './file-response.ts';
+
+function createRequest(headers?: HeadersInit, method = 'GET'): Request {
+  return new Request('http://localhost/hello.txt', { method, headers });
+}
+
+describe('createFileResponse', () => {
+  let file = new File(['Hello, world!'], 'hello.txt', { type: 'text/plain' });
+
+  it('responds with the whole file', async () => {
+    let response = createFileResponse(file, createRequest());
+    assert.equal(response.status, 200);
+    assert.equal(response.headers.get('Accept-Ranges'), 'bytes');
+    assert.equal(response.headers.get('Content-Type'), 'text/plain');
+    assert.equal(response.headers.get('Content-Length'), '13');
+    assert.equal(await response.text(), 'Hello, world!');
+  });
+
+  it('keeps the status and headers in init', async () => {
+    let response = createFileResponse(file, createRequest(), {
+      status: 203,
+      headers: { 'Content-Type': 'text/markdown', 'Cache-Control': 'no-cache' },
+    });
+    assert.equal(response.status, 203);
+    assert.equal(response.headers.get('Content-Type'), 'text/markdown');
+    assert.equal(response.headers.get('Cache-Control'), 'no-cache');
+  });
+
+  it('sends no body for HEAD requests', async () => {
+    let response = createFileResponse(file, createRequest({ Range: 'bytes=0-4' }, 'HEAD'));
+    assert.equal(response.status, 206);
+    assert.equal(response.headers.get('Content-Length'), '5');
+    assert.equal(response.body, null);
+  });
+
+  let singleRangeTests = [
+    { range: 'bytes=0-4', contentRange: 'bytes 0-4/13', body: 'Hello' },
+    { range: 'bytes=7-', contentRange: 'bytes 7-12/13', body: 'world!' },
+    { range: 'bytes=-6', contentRange: 'bytes 7-12/13', body: 'world!' },
+    { range: 'bytes=7-100', contentRange: 'bytes 7-12/13', body: 'world!' },
+    { range: 'bytes=-100', contentRange: 'bytes 0-12/13', body: 'Hello, world!' },
+    { range: 'bytes=0-4, 2-6', contentRange: 'bytes 0-6/13', body: 'Hello, ' },
+    { range: 'bytes=0-4, 100-', contentRange: 'bytes 0-4/13', body: 'Hello' },
+  ];
+
+  singleRangeTests.forEach(({ range, contentRange, body }) => {
+    it(`responds with 206 for ${range}`, async () => {
+      let response = createFileResponse(file, createRequest({ Range: range }));
+      assert.equal(response.status, 206);
+      assert.equal(response.headers.get('Content-Range'), contentRange);
+      assert.equal(response.headers.get('Content-Length'), String(body.length));
+      assert.equal(await response.text(), body);
+    });
+  });
+
+  it('responds with multipart/byteranges for multiple ranges', async () => {
+    let response = createFileResponse(file, createRequest({ Range: 'bytes=7-11, 0-4' }));
+    assert.equal(response.status, 206);
+
+    let contentType = response.headers.get('Content-Type')!;
+    let boundary = /^multipart\/byteranges; boundary=(.+)$/.exec(contentType)?.[1];
+    assert.ok(boundary);
+
+    let body = await response.text();
+    assert.equal(
+      body,
+      [
+        `--${boundary}`,
+        'Content-Type: text/plain',
+        'Content-Range: bytes 0-4/13',
+        '',
+        'Hello',
+        `--${boundary}`,
+        'Content-Type: text/plain',
+        'Content-Range: bytes 7-11/13',
+        '',
+        'world',
+        `--${boundary}--`,
+        '',
+      ].join('\r\n'),
+    );
+    assert.equal(response.headers.get('Content-Length'), String(body.length));
+  });
+
+  it('responds with 416 for unsatisfiable ranges', async () => {
+    let response = createFileResponse(file, createRequest({ Range: 'bytes=13-, 20-30' }));
+    assert.equal(response.status, 416);
+    assert.equal(response.headers.get('Content-Range'), 'bytes */13');
+    assert.equal(response.body, null);
+  });
+
+  ['bytes=5-2', 'items=0-4', 'bytes=-', 'bytes=0-1,x'].forEach((range) => {
+    it(`ignores ${range}`, async () => {
+      let response = createFileResponse(file, createRequest({ Range: range }));
+      assert.equal(response.status, 200);
+      assert.equal(await response.text(), 'Hello, world!');
+    });
+  });
+
+  describe('If-Range', () => {
+    let lastModified = 'Fri, 01 Jan 2021 00:00:00 GMT';
+
+    let ifRangeTests = [
+      { etag: '"abc"', ifRange: '"abc"', status: 206 },
+      { etag: '"abc"', ifRange: '"xyz"', status: 200 },
+      { etag: 'W/"abc"', ifRange: 'W/"abc"', status: 200 },
+      { etag: undefined, ifRange: '"abc"', status: 200 },
+      { lastModified, ifRange: lastModified, status: 206 },
+      { lastModified, ifRange: 'Thu, 31 Dec 2020 00:00:00 GMT', status: 200 },
+      { lastModified: undefined, ifRange: lastModified, status: 200 },
+    ];
+
+    ifRangeTests.forEach(({ ifRange, status, ...headers }) => {
+      it(`responds with ${status} for ${ifRange} and ${JSON.stringify(headers)}`, () => {
+        let init: Record<string, string> = {};
+        if (headers.etag) init['ETag'] = headers.etag;
+        if (headers.lastModified) init['Last-Modified'] = headers.lastModified;
+
+        let request = createRequest({ Range: 'bytes=0-4', 'If-Range': ifRange });
+        let response = createFileResponse(file, request, { headers: init });
+        assert.equal(response.status, status);
+      });
+    });
+  });
+});
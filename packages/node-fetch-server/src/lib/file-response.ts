@@ -0,0 +1,170 @@
+import { SuperHeaders } from '@mjackson/headers';
+
+import { readStream } from './read-stream.ts';
+
+/**
+ * Creates a [`Response`](https://developer.mozilla.org/en-US/docs/Web/API/Response) for a
+ * [`File`](https://developer.mozilla.org/en-US/docs/Web/API/File) that honors the request's
+ * [`Range`](https://developer.mozilla.org/en-US/docs/Web/HTTP/Headers/Range) header.
+ *
+ * - Requests without a valid `Range` header get a `200 OK` response with the whole file
+ * - Requests for a single range get a `206 Partial Content` response with that part of the file
+ * - Requests for multiple ranges get a `206 Partial Content` response with a
+ *   [`multipart/byteranges`](https://developer.mozilla.org/en-US/docs/Web/HTTP/Range_requests#multipart_ranges)
+ *   body. Overlapping ranges are combined
+ * - Requests for ranges that are all outside the file get a `416 Range Not Satisfiable` response
+ *
+ * The `Range` header is ignored when an `If-Range` header does not match the `ETag` or
+ * `Last-Modified` header in `init.headers`. Responses to `HEAD` requests have no body.
+ *
+ * Example:
+ *
+ * ```ts
+ * import { openFile } from '@mjackson/lazy-file/fs';
+ * import { createFileResponse } from '@mjackson/node-fetch-server';
+ *
+ * async function handler(request: Request) {
+ *   let file = openFile('./videos/intro.mp4');
+ *   return createFileResponse(file, request);
+ * }
+ * ```
+ *
+ * @param file The file to send. Use a `LazyFile` to read only the requested ranges from disk.
+ * @param request The request for the file.
+ * @param init Options for the response, like extra headers.
+ * @returns A response for the file.
+ */
+export function createFileResponse(file: File, request: Request, init?: ResponseInit): Response {
+  let headers = new SuperHeaders(init?.headers);
+  let requestHeaders = new SuperHeaders(request.headers);
+  let isHead = request.method === 'HEAD';
+
+  headers.acceptRanges = 'bytes';
+  if (!headers.has('Content-Type') && file.type !== '') {
+    headers.contentType = file.type;
+  }
+
+  let range = requestHeaders.range;
+  if (
+    range.unit !== 'bytes' ||
+    range.ranges.length === 0 ||
+    !isIfRangeFresh(requestHeaders, headers)
+  ) {
+    headers.contentLength = file.size;
+    return new Response(isHead ? null : file.stream(), { ...init, headers });
+  }
+
+  let indexes = coalesce(range.getIndexes(file.size));
+
+  if (indexes.length === 0) {
+    headers.delete('Content-Type');
+    headers.contentRange = { size: file.size };
+    return new Response(null, { ...init, status: 416, headers });
+  }
+
+  if (indexes.length === 1) {
+    let [start, end] = indexes[0];
+    headers.contentRange = { start, end: end - 1, size: file.size };
+    headers.contentLength = end - start;
+    return new Response(isHead ? null : file.slice(start, end).stream(), {
+      ...init,
+      status: 206,
+      headers,
+    });
+  }
+
+  let boundary = crypto.randomUUID();
+  let partType = headers.get('Content-Type');
+  let encoder = new TextEncoder();
+  let parts = indexes.map(([start, end]) => {
+    let partHeaders = new SuperHeaders();
+    if (partType != null) partHeaders.set('Content-Type', partType);
+    partHeaders.contentRange = { start, end: end - 1, size: file.size };
+    return { header: encoder.encode(`--${boundary}\r\n${partHeaders}\r\n\r\n`), start, end };
+  });
+  let trailer = encoder.encode(`--${boundary}--\r\n`);
+
+  headers.contentType = { mediaType: 'multipart/byteranges', boundary };
+  headers.contentLength = parts.reduce(
+    (length, part) => length + part.header.length + (part.end - part.start) + 2,
+    trailer.length,
+  );
+
+  let body: ReadableStream<Uint8Array> | null = null;
+  if (!isHead) {
+    let chunks = multipartChunks(file, parts, trailer);
+    body = new ReadableStream({
+      async pull(controller) {
+        let { done, value } = await chunks.next();
+        if (done) {
+          controller.close();
+        } else {
+          controller.enqueue(value);
+        }
+      },
+      async cancel() {
+        await chunks.return(undefined);
+      },
+    });
+  }
+
+  return new Response(body, { ...init, status: 206, headers });
+}
+
+// If-Range uses the strong comparison function, so weak tags never match it
+// See https://datatracker.ietf.org/doc/html/rfc9110#section-13.1.5
+function isIfRangeFresh(requestHeaders: SuperHeaders, headers: SuperHeaders): boolean {
+  let ifRange = requestHeaders.get('If-Range');
+  if (ifRange == null) return true;
+
+  if (ifRange.startsWith('"') || ifRange.startsWith('W/')) {
+    let etag = headers.etag;
+    return etag != null && !etag.startsWith('W/') && !ifRange.startsWith('W/') && etag === ifRange;
+  }
+
+  let lastModified = headers.lastModified;
+  return lastModified != null && new Date(ifRange).getTime() === lastModified.getTime();
+}
+
+// Combines overlapping and adjacent ranges, so each byte is sent at most once
+function coalesce(indexes: [number, number][]): [number, number][] {
+  let sorted = indexes.slice().sort((a, b) => a[0] - b[0]);
+  let result: [number, number][] = [];
+
+  for (let [start, end] of sorted) {
+    let last = result[result.length - 1];
+    if (last != null && start <= last[1]) {
+      last[1] = Math.max(last[1], end);
+    } else {
+      result.push([start, end]);
+    }
+  }
+
+  return result;
+}
+
+async function* multipartChunks(
+  file: File,
+  parts: { header: Uint8Array; start: number; end: number }[],
+  trailer: Uint8Array,
+): AsyncGenerator<Uint8Array> {
+  let crlf = new Uint8Array([13, 10]);
+
+  for (let part of parts) {
+    yield part.header;
+
+    let stream = file.slice(part.start, part.end).stream();
+    let finished = false;
+    try {
+      yield* readStream(stream);
+      finished = true;
+    } finally {
+      // Stop reading the file if the response body was canceled
+      if (!finished) await stream.cancel();
+    }
+
+    yield crlf;
+  }
+
+  yield trailer;
+}
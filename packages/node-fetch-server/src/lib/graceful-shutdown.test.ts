@@ -0,0 +1,166 @@
+import * as assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+
+import * as http from 'node:http';
+import type * as net from 'node:net';
+
+import { type FetchHandler } from './fetch-handler.ts';
+import { createGracefulShutdown, type GracefulShutdownOptions } from './graceful-shutdown.ts';
+import { createContinueListener, createRequestListener } from './request-listener.ts';
+
+async function startServer(handler: FetchHandler, options?: GracefulShutdownOptions) {
+  let server = http.createServer(createRequestListener(handler));
+  let graceful = createGracefulShutdown(server, options);
+
+  await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+  let { port } = server.address() as net.AddressInfo;
+  let agent = new http.Agent({ keepAlive: true });
+
+  function get(
+    path = '/',
+  ): Promise<{ status: number; headers: http.IncomingHttpHeaders; body: string }> {
+    return new Promise((resolve, reject) => {
+      let req = http.get({ host: '127.0.0.1', port, path, agent }, (res) => {
+        let chunks: Buffer[] = [];
+        res.on('data', (chunk) => chunks.push(chunk));
+        res.on('end', () => {
+          resolve({
+            status: res.statusCode!,
+            headers: res.headers,
+            body: Buffer.concat(chunks).toString(),
+          });
+        });
+        res.on('error', reject);
+      });
+      req.on('error', reject);
+    });
+  }
+
+  return { server, graceful, agent, get };
+}
+
+describe('createGracefulShutdown', () => {
+  it('resolves when there are no connections', async () => {
+    let { server, graceful, agent } = await startServer(() => new Response('ok'));
+
+    assert.equal(graceful.isShuttingDown, false);
+    await graceful.shutdown();
+    assert.equal(graceful.isShuttingDown, true);
+    assert.equal(server.listening, false);
+    agent.destroy();
+  });
+
+  it('closes idle keep-alive connections', async () => {
+    let { graceful, agent, get } = await startServer(() => new Response('ok'));
+
+    let response = await get();
+    assert.equal(response.body, 'ok');
+    assert.equal(response.headers.connection, 'keep-alive');
+
+    // The connection is idle but still open, so this only resolves if it is closed
+    await graceful.shutdown();
+    agent.destroy();
+  });
+
+  it('waits for in-flight requests to finish', async () => {
+    let finish!: () => void;
+    let { graceful, agent, get } = await startServer(async () => {
+      await new Promise<void>((resolve) => (finish = resolve));
+      return new Response('done');
+    });
+
+    let responsePromise = get();
+    while (graceful.activeRequests === 0) await tick();
+
+    let drained = false;
+    let shutdownPromise = graceful.shutdown().then(() => (drained = true));
+    await tick();
+    assert.equal(drained, false);
+
+    finish();
+    let response = await responsePromise;
+    assert.equal(response.status, 200);
+    assert.equal(response.body, 'done');
+    assert.equal(response.headers.connection, 'close');
+
+    await shutdownPromise;
+    assert.equal(graceful.activeRequests, 0);
+    agent.destroy();
+  });
+
+  it('aborts requests that do not finish before the timeout', async () => {
+    let aborted = false;
+    let { graceful, agent, get } = await startServer(
+      (request) => {
+        request.signal.addEventListener('abort', () => (aborted = true));
+        return new Promise<Response>(() => {});
+      },
+      { timeout: 50 },
+    );
+
+    let rejected = assert.rejects(get(), { code: 'ECONNRESET' });
+    while (graceful.activeRequests === 0) await tick();
+
+    await graceful.shutdown();
+    await tick();
+    assert.equal(aborted, true);
+    await rejected;
+    agent.destroy();
+  });
+
+  it('waits for in-flight requests from the checkContinue event to finish', async () => {
+    let finish!: () => void;
+    let handler: FetchHandler = async (request) => {
+      let body = await request.text();
+      await new Promise<void>((resolve) => (finish = resolve));
+      return new Response(body);
+    };
+
+    let { server, graceful, agent } = await startServer(handler);
+    server.on('checkContinue', createContinueListener(handler));
+    let { port } = server.address() as net.AddressInfo;
+
+    let responsePromise = new Promise<string>((resolve, reject) => {
+      let req = http.request(
+        {
+          host: '127.0.0.1',
+          port,
+          method: 'POST',
+          agent,
+          headers: { Expect: '100-continue', 'Content-Length': '5' },
+        },
+        (res) => {
+          let chunks: Buffer[] = [];
+          res.on('data', (chunk) => chunks.push(chunk));
+          res.on('end', () => resolve(Buffer.concat(chunks).toString()));
+          res.on('error', reject);
+        },
+      );
+      req.on('continue', () => req.end('Hello'));
+      req.on('error', reject);
+    });
+
+    while (finish === undefined) await tick();
+    assert.equal(graceful.activeRequests, 1);
+
+    let shutdownPromise = graceful.shutdown();
+    await tick();
+    finish();
+
+    assert.equal(await responsePromise, 'Hello');
+    await shutdownPromise;
+    assert.equal(graceful.activeRequests, 0);
+    agent.destroy();
+  });
+
+  it('returns the same promise when called more than once', async () => {
+    let { graceful, agent } = await startServer(() => new Response('ok'));
+    assert.equal(graceful.shutdown(), graceful.shutdown());
+    await graceful.shutdown();
+    agent.destroy();
+  });
+});
+
+function tick(): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, 5));
+}
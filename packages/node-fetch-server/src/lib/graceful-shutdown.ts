@@ -0,0 +1,198 @@
+import * as http from 'node:http';
+import type * as http2 from 'node:http2';
+import type * as net from 'node:net';
+import * as tls from 'node:tls';
+
+export interface GracefulShutdownOptions {
+  /**
+   * The number of milliseconds to wait for in-flight requests to finish after `shutdown()` is
+   * called. When it runs out, the remaining connections are closed, which aborts the
+   * [`signal`](https://developer.mozilla.org/en-US/docs/Web/API/Request/signal) of their requests.
+   * Default is `10000` (10 seconds).
+   */
+  timeout?: number;
+}
+
+export interface GracefulShutdown {
+  /**
+   * The number of requests that are in flight, i.e. that have not finished sending their response.
+   */
+  readonly activeRequests: number;
+  /**
+   * `true` once `shutdown()` has been called.
+   */
+  readonly isShuttingDown: boolean;
+  /**
+   * Stops the server from accepting new connections, closes idle keep-alive connections, and
+   * closes the other connections as their in-flight requests finish.
+   *
+   * @returns A promise that resolves when all connections are closed.
+   */
+  shutdown(): Promise<void>;
+}
+
+type Server = http.Server | http2.Http2Server | http2.Http2SecureServer;
+
+/**
+ * Tracks the connections and in-flight requests of a server so it can be shut down without
+ * cutting off responses that are still being sent. This is useful when deploying a new version of
+ * your app.
+ *
+ * Works with servers created by:
+ *
+ * - [`http.createServer()`](https://nodejs.org/api/http.html#httpcreateserveroptions-requestlistener)
+ * - [`https.createServer()`](https://nodejs.org/api/https.html#httpscreateserveroptions-requestlistener)
+ * - [`http2.createServer()`](https://nodejs.org/api/http2.html#http2createserveroptions-onrequesthandler)
+ * - [`http2.createSecureServer()`](https://nodejs.org/api/http2.html#http2createsecureserveroptions-onrequesthandler)
+ *
+ * Example:
+ *
+ * ```ts
+ * import * as http from 'node:http';
+ * import { createGracefulShutdown, createRequestListener } from '@mjackson/node-fetch-server';
+ *
+ * let server = http.createServer(createRequestListener(handler));
+ * let graceful = createGracefulShutdown(server, { timeout: 30_000 });
+ *
+ * server.listen(3000);
+ *
+ * process.on('SIGTERM', async () => {
+ *   await graceful.shutdown();
+ *   process.exit(0);
+ * });
+ * ```
+ *
+ * @param server The server to track. Call this before the server starts listening.
+ * @param options Graceful shutdown options.
+ * @returns An object that shuts down the server.
+ */
+export function createGracefulShutdown(
+  server: Server,
+  options?: GracefulShutdownOptions,
+): GracefulShutdown {
+  let timeout = options?.timeout ?? 10_000;
+
+  // The number of in-flight HTTP/1 requests on each socket. HTTP/2 sockets are tracked in
+  // `sessions` instead, since their streams can't be matched to a socket
+  let sockets = new Map<net.Socket, number>();
+  let sessions = new Set<http2.Http2Session>();
+  let responses = new Set<http.ServerResponse>();
+  let activeRequests = 0;
+  let shutdownPromise: Promise<void> | undefined;
+
+  // TLS servers parse requests from the TLS socket, not the underlying TCP socket
+  let connectionEvent = server instanceof tls.Server ? 'secureConnection' : 'connection';
+
+  server.on(connectionEvent, (socket: net.Socket | tls.TLSSocket) => {
+    if (isHttp2Socket(server, socket)) return;
+
+    sockets.set(socket, 0);
+    socket.once('close', () => {
+      sockets.delete(socket);
+    });
+  });
+
+  server.on('session', (session: http2.Http2Session) => {
+    sessions.add(session);
+    session.once('close', () => {
+      sessions.delete(session);
+    });
+
+    if (shutdownPromise) session.close();
+  });
+
+  function trackRequest(
+    req: http.IncomingMessage | http2.Http2ServerRequest,
+    res: http.ServerResponse | http2.Http2ServerResponse,
+  ): void {
+    activeRequests++;
+
+    let socket = req instanceof http.IncomingMessage ? req.socket : undefined;
+    if (socket && sockets.has(socket)) {
+      sockets.set(socket, sockets.get(socket)! + 1);
+    }
+
+    if (res instanceof http.ServerResponse) {
+      responses.add(res);
+      if (shutdownPromise) closeAfterResponse(res);
+    }
+
+    res.once('close', () => {
+      activeRequests--;
+      if (res instanceof http.ServerResponse) responses.delete(res);
+
+      if (socket && sockets.has(socket)) {
+        let count = sockets.get(socket)! - 1;
+        sockets.set(socket, count);
+        if (shutdownPromise && count === 0) socket.end();
+      }
+    });
+  }
+
+  server.on('request', trackRequest);
+
+  // Requests with an `Expect` header are emitted as `checkContinue` or `checkExpectation` instead of
+  // `request` when the server has listeners for those events. Listening for them here would change
+  // how Node.js handles those requests, so watch for them being emitted instead.
+  let emit = server.emit.bind(server) as (event: string | symbol, ...args: unknown[]) => boolean;
+  server.emit = ((event: string | symbol, ...args: unknown[]) => {
+    if (event === 'checkContinue' || event === 'checkExpectation') {
+      trackRequest(
+        args[0] as http.IncomingMessage | http2.Http2ServerRequest,
+        args[1] as http.ServerResponse | http2.Http2ServerResponse,
+      );
+    }
+    return emit(event, ...args);
+  }) as Server['emit'];
+
+  function shutdown(): Promise<void> {
+    if (shutdownPromise) return shutdownPromise;
+
+    shutdownPromise = new Promise((resolve) => {
+      let timer = setTimeout(() => {
+        for (let socket of sockets.keys()) socket.destroy();
+        for (let session of sessions) session.destroy();
+      }, timeout);
+
+      server.close(() => {
+        clearTimeout(timer);
+        resolve();
+      });
+
+      for (let res of responses) {
+        closeAfterResponse(res);
+      }
+
+      for (let [socket, count] of sockets) {
+        if (count === 0) socket.end();
+      }
+
+      for (let session of sessions) {
+        session.close();
+      }
+    });
+
+    return shutdownPromise;
+  }
+
+  return {
+    get activeRequests() {
+      return activeRequests;
+    },
+    get isShuttingDown() {
+      return shutdownPromise !== undefined;
+    },
+    shutdown,
+  };
+}
+
+// Asks HTTP/1 clients not to send more requests on the connection
+function closeAfterResponse(res: http.ServerResponse): void {
+  if (!res.headersSent) res.setHeader('Connection', 'close');
+}
+
+function isHttp2Socket(server: Server, socket: net.Socket | tls.TLSSocket): boolean {
+  if (server instanceof http.Server) return false;
+  // Secure HTTP/2 servers may also accept HTTP/1 connections with the `allowHTTP1` option
+  return !(socket instanceof tls.TLSSocket) || socket.alpnProtocol === 'h2';
+}
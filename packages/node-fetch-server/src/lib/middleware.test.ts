@@ -0,0 +1,217 @@
+import * as assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+
+import { createContextKey, getContext } from './context.ts';
+import { type ClientAddress } from './fetch-handler.ts';
+import { compose, type Middleware } from './middleware.ts';
+
+const client: ClientAddress = { address: '127.0.0.1', family: 'IPv4', port: 12345 };
+
+function createRequest(url = 'http://localhost/'): Request {
+  return new Request(url);
+}
+
+describe('compose', () => {
+  it('calls the handler when there is no middleware', async () => {
+    let handler = compose([], () => new Response('Hello, world!'));
+    let response = await handler(createRequest(), client);
+    assert.equal(await response.text(), 'Hello, world!');
+  });
+
+  it('runs middleware in order', async () => {
+    let calls: string[] = [];
+    let track =
+      (name: string): Middleware =>
+      async (request, client, next) => {
+        calls.push(`${name} before`);
+        let response = await next();
+        calls.push(`${name} after`);
+        return response;
+      };
+
+    let handler = compose([track('a'), track('b')], () => {
+      calls.push('handler');
+      return new Response('ok');
+    });
+    await handler(createRequest(), client);
+
+    assert.deepEqual(calls, ['a before', 'b before', 'handler', 'b after', 'a after']);
+  });
+
+  it('passes the client to middleware and the handler', async () => {
+    let clients: ClientAddress[] = [];
+    let handler = compose(
+      [
+        (request, client, next) => {
+          clients.push(client);
+          return next();
+        },
+      ],
+      (request, client) => {
+        clients.push(client);
+        return new Response('ok');
+      },
+    );
+    await handler(createRequest(), client);
+
+    assert.deepEqual(clients, [client, client]);
+  });
+
+  it('lets middleware change the response', async () => {
+    let handler = compose(
+      [
+        async (request, client, next) => {
+          let response = await next();
+          response.headers.set('X-Powered-By', 'node-fetch-server');
+          return response;
+        },
+      ],
+      () => new Response('ok'),
+    );
+    let response = await handler(createRequest(), client);
+
+    assert.equal(response.headers.get('X-Powered-By'), 'node-fetch-server');
+  });
+
+  it('skips the rest of the chain when middleware returns a response', async () => {
+    let called = false;
+    let handler = compose(
+      [
+        () => new Response('Unauthorized', { status: 401 }),
+        (request, client, next) => {
+          called = true;
+          return next();
+        },
+      ],
+      () => {
+        called = true;
+        return new Response('ok');
+      },
+    );
+    let response = await handler(createRequest(), client);
+
+    assert.equal(response.status, 401);
+    assert.equal(called, false);
+  });
+
+  it('passes a new request to the rest of the chain', async () => {
+    let handler = compose(
+      [(request, client, next) => next(new Request(request.url.replace('/old', '/new')))],
+      (request) => new Response(new URL(request.url).pathname),
+    );
+    let response = await handler(createRequest('http://localhost/old'), client);
+
+    assert.equal(await response.text(), '/new');
+  });
+
+  it('rejects when next() is called more than once', async () => {
+    let handler = compose(
+      [
+        async (request, client, next) => {
+          await next();
+          return next();
+        },
+      ],
+      () => new Response('ok'),
+    );
+
+    await assert.rejects(
+      async () => handler(createRequest(), client),
+      /next\(\) was called more than once/,
+    );
+  });
+
+  it('rejects when middleware or the handler throws', async () => {
+    let handler = compose(
+      [
+        () => {
+          throw new Error('boom!');
+        },
+      ],
+      () => new Response('ok'),
+    );
+    await assert.rejects(async () => handler(createRequest(), client), /boom!/);
+
+    let handler2 = compose([], () => {
+      throw new Error('boom!');
+    });
+    await assert.rejects(async () => handler2(createRequest(), client), /boom!/);
+  });
+
+  it('can be nested', async () => {
+    let calls: string[] = [];
+    let inner = compose(
+      [
+        (request, client, next) => {
+          calls.push('inner');
+          return next();
+        },
+      ],
+      () => new Response('ok'),
+    );
+    let outer = compose(
+      [
+        (request, client, next) => {
+          calls.push('outer');
+          return next();
+        },
+      ],
+      inner,
+    );
+    await outer(createRequest(), client);
+
+    assert.deepEqual(calls, ['outer', 'inner']);
+  });
+});
+
+describe('getContext', () => {
+  it('returns the same context for the same request', () => {
+    let request = createRequest();
+    assert.equal(getContext(request), getContext(request));
+    assert.notEqual(getContext(request), getContext(createRequest()));
+  });
+
+  it('stores values by key', () => {
+    let NameKey = createContextKey<string>('name');
+    let CountKey = createContextKey('count', 0);
+    let context = getContext(createRequest());
+
+    assert.equal(context.get(NameKey), undefined);
+    assert.equal(context.get(CountKey), 0);
+    assert.equal(context.has(CountKey), false);
+
+    context.set(NameKey, 'Michael');
+    context.set(CountKey, 1);
+    assert.equal(context.get(NameKey), 'Michael');
+    assert.equal(context.get(CountKey), 1);
+    assert.equal(context.has(CountKey), true);
+
+    context.delete(CountKey);
+    assert.equal(context.get(CountKey), 0);
+  });
+
+  it('uses a different value for keys with the same name', () => {
+    let key1 = createContextKey('key', 'a');
+    let key2 = createContextKey('key', 'b');
+    let context = getContext(createRequest());
+
+    context.set(key1, 'c');
+    assert.equal(context.get(key2), 'b');
+  });
+
+  it('passes values from middleware to the handler', async () => {
+    let UserKey = createContextKey<string | null>('user', null);
+    let handler = compose(
+      [
+        (request, client, next) => {
+          getContext(request).set(UserKey, 'mjackson');
+          return next(new Request(request.url + 'rewritten'));
+        },
+      ],
+      (request) => new Response(getContext(request).get(UserKey)),
+    );
+    let response = await handler(createRequest(), client);
+
+    assert.equal(await response.text(), 'mjackson');
+  });
+});
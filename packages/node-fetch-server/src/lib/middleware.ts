@@ -0,0 +1,88 @@
+import { shareContext } from './context.ts';
+import type { ClientAddress, FetchHandler } from './fetch-handler.ts';
+
+/**
+ * Calls the next middleware, or the handler if there is no more middleware. Pass a new request to
+ * use it instead of the current one for the rest of the chain.
+ */
+export interface NextFunction {
+  (request?: Request): Promise<Response>;
+}
+
+/**
+ * A function that handles a request on its way to a fetch handler. Middleware may:
+ *
+ * - call `next()` and return its response, possibly after changing it
+ * - return a response without calling `next()`, which skips the rest of the chain
+ *
+ * Use `getContext(request)` to pass values to the middleware and handler after it.
+ */
+export interface Middleware {
+  (request: Request, client: ClientAddress, next: NextFunction): Response | Promise<Response>;
+}
+
+/**
+ * Combines middleware and a fetch handler into a single fetch handler. Middleware runs in the order
+ * it is given, and each one decides whether to call the next.
+ *
+ * The result is a plain `FetchHandler`, so it can be used with `createRequestListener()` and in any
+ * other runtime that uses fetch handlers, and it can be used as the handler of another `compose()`.
+ *
+ * Example:
+ *
+ * ```ts
+ * import { compose, createRequestListener, type Middleware } from '@mjackson/node-fetch-server';
+ *
+ * let poweredBy: Middleware = async (request, client, next) => {
+ *   let response = await next();
+ *   response.headers.set('X-Powered-By', 'node-fetch-server');
+ *   return response;
+ * };
+ *
+ * let requireAuth: Middleware = (request, client, next) => {
+ *   if (!request.headers.has('Authorization')) {
+ *     return new Response('Unauthorized', { status: 401 });
+ *   }
+ *   return next();
+ * };
+ *
+ * let handler = compose([poweredBy, requireAuth], (request) => {
+ *   return new Response('Hello, world!');
+ * });
+ *
+ * http.createServer(createRequestListener(handler));
+ * ```
+ *
+ * @param middleware The middleware to run before the handler.
+ * @param handler The fetch handler to call at the end of the chain.
+ * @returns A fetch handler.
+ */
+export function compose(middleware: Middleware[], handler: FetchHandler): FetchHandler {
+  let chain = middleware.slice();
+
+  return (request, client) => {
+    function dispatch(index: number, request: Request): Promise<Response> {
+      let called = false;
+
+      let next: NextFunction = async (nextRequest = request) => {
+        if (called) {
+          throw new Error('next() was called more than once');
+        }
+        called = true;
+        shareContext(request, nextRequest);
+        return dispatch(index + 1, nextRequest);
+      };
+
+      try {
+        if (index === chain.length) {
+          return Promise.resolve(handler(request, client));
+        }
+        return Promise.resolve(chain[index](request, client, next));
+      } catch (error) {
+        return Promise.reject(error);
+      }
+    }
+
+    return dispatch(0, request);
+  };
+}
@@ -0,0 +1,120 @@
+import * as assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+
+import type * as http from 'node:http';
+import * as stream from 'node:stream';
+
+import { MaxBodySizeExceededError, createRequestBody } from './request-body.ts';
+
+function createMockRequest(
+  chunks: string[] = [],
+  headers: Record<string, string> = {},
+): stream.Readable & http.IncomingMessage {
+  let readable = new stream.Readable({
+    read() {
+      let chunk = chunks.shift();
+      this.push(chunk === undefined ? null : Buffer.from(chunk));
+    },
+  });
+
+  return Object.assign(readable, { headers }) as stream.Readable & http.IncomingMessage;
+}
+
+async function readText(body: ReadableStream<Uint8Array>): Promise<string> {
+  return new Response(body).text();
+}
+
+function tick(): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, 10));
+}
+
+describe('createRequestBody', () => {
+  it('reads the request body', async () => {
+    let req = createMockRequest(['Hello, ', 'world!']);
+    assert.equal(await readText(createRequestBody(req)), 'Hello, world!');
+  });
+
+  it('does not read the request until the body is read', async () => {
+    let req = createMockRequest(['Hello, ', 'world!']);
+    createRequestBody(req);
+
+    await tick();
+    assert.equal(req.readableDidRead, false);
+  });
+
+  it('pauses the request until more of the body is read', async () => {
+    let chunks = ['1', '2', '3', '4', '5'];
+    let req = createMockRequest([...chunks]);
+    let reader = createRequestBody(req).getReader();
+
+    let received: string[] = [];
+    let result = await reader.read();
+    received.push(Buffer.from(result.value!).toString());
+
+    await tick();
+    assert.equal(req.isPaused(), true);
+    assert.equal(req.readableEnded, false);
+
+    while (!(result = await reader.read()).done) {
+      received.push(Buffer.from(result.value).toString());
+    }
+    assert.deepEqual(received, chunks);
+  });
+
+  it('reads a body that is not larger than maxBodySize', async () => {
+    let req = createMockRequest(['Hello, ', 'world!']);
+    assert.equal(await readText(createRequestBody(req, 13)), 'Hello, world!');
+  });
+
+  it('errors when the body is larger than maxBodySize', async () => {
+    let req = createMockRequest(['Hello, ', 'world!']);
+    await assert.rejects(readText(createRequestBody(req, 10)), MaxBodySizeExceededError);
+  });
+
+  it('errors without reading the body when Content-Length is larger than maxBodySize', async () => {
+    let req = createMockRequest(['Hello, ', 'world!'], { 'content-length': '13' });
+    await assert.rejects(readText(createRequestBody(req, 10)), MaxBodySizeExceededError);
+    assert.equal(req.readableDidRead, false);
+  });
+
+  it('errors when the client aborts the request', async () => {
+    let req = createMockRequest();
+    let body = createRequestBody(req);
+    req.push(Buffer.from('Hello, '));
+    req.destroy();
+
+    await assert.rejects(readText(body), { name: 'AbortError' });
+  });
+
+  it('errors when the request errors', async () => {
+    let req = createMockRequest();
+    let body = createRequestBody(req);
+    req.destroy(new Error('boom!'));
+
+    await assert.rejects(readText(body), /boom!/);
+  });
+
+  it('discards the rest of the body when the stream is canceled', async () => {
+    let req = createMockRequest(['1', '2', '3', '4', '5']);
+    let reader = createRequestBody(req).getReader();
+
+    await reader.read();
+    await reader.cancel();
+    await tick();
+
+    assert.equal(req.readableEnded, true);
+  });
+
+  it('discards the rest of the body when the signal is aborted', async () => {
+    let controller = new AbortController();
+    let req = createMockRequest(['1', '2', '3', '4', '5']);
+    let reader = createRequestBody(req, Infinity, controller.signal).getReader();
+
+    await reader.read();
+    controller.abort();
+    await tick();
+
+    assert.equal(req.readableEnded, true);
+    await assert.rejects(reader.read(), { name: 'AbortError' });
+  });
+});
@@ -0,0 +1,120 @@
+import type * as http from 'node:http';
+import type * as http2 from 'node:http2';
+
+/**
+ * An error thrown when reading a request body that is larger than the `maxBodySize` option.
+ * `createRequestListener` responds to requests whose handler throws this error with
+ * `413 Content Too Large`.
+ */
+export class MaxBodySizeExceededError extends Error {
+  constructor(maxBodySize: number) {
+    super(`Request body size exceeds maximum allowed size of ${maxBodySize} bytes`);
+    this.name = 'MaxBodySizeExceededError';
+  }
+}
+
+/**
+ * Creates a stream of the body of a Node.js request. The request isn't read until the stream is,
+ * and it is paused while the stream's queue is full and resumed when more data is read, so a slow
+ * reader doesn't buffer the whole body in memory. The stream errors with a
+ * `MaxBodySizeExceededError` when the body is larger than `maxBodySize`, and with an `AbortError`
+ * when the client aborts the request before sending the whole body or `signal` is aborted.
+ *
+ * The rest of the body is discarded when the stream is canceled, when the body is too large and when
+ * `signal` is aborted, so Node.js can go on to the next request on a keep-alive connection.
+ */
+export function createRequestBody(
+  req: http.IncomingMessage | http2.Http2ServerRequest,
+  maxBodySize = Infinity,
+  signal?: AbortSignal,
+): ReadableStream<Uint8Array> {
+  let reading = false;
+  let startReading = () => {};
+  let cleanup = () => {};
+
+  function discard() {
+    cleanup();
+    req.resume();
+  }
+
+  return new ReadableStream<Uint8Array>(
+    {
+      start(controller) {
+        // Don't wait to receive a body we already know is too large
+        let contentLength = Number(req.headers['content-length']);
+        if (contentLength > maxBodySize) {
+          controller.error(new MaxBodySizeExceededError(maxBodySize));
+          return;
+        }
+
+        let size = 0;
+
+        function handleData(chunk: Buffer) {
+          size += chunk.byteLength;
+          if (size > maxBodySize) {
+            discard();
+            controller.error(new MaxBodySizeExceededError(maxBodySize));
+            return;
+          }
+
+          controller.enqueue(new Uint8Array(chunk.buffer, chunk.byteOffset, chunk.byteLength));
+          if (controller.desiredSize! <= 0) req.pause();
+        }
+
+        function handleEnd() {
+          cleanup();
+          controller.close();
+        }
+
+        function handleError(error: Error) {
+          cleanup();
+          controller.error(error);
+        }
+
+        function handleClose() {
+          // 'close' without 'end' means the connection was closed before the whole body was received
+          cleanup();
+          controller.error(new DOMException('The client aborted the request', 'AbortError'));
+        }
+
+        function handleAbort() {
+          // The response was sent (or the client went away), so nobody is going to read the rest
+          discard();
+          controller.error(new DOMException('The request was aborted', 'AbortError'));
+        }
+
+        cleanup = () => {
+          req.off('data', handleData);
+          req.off('end', handleEnd);
+          req.off('error', handleError);
+          req.off('close', handleClose);
+          signal?.removeEventListener('abort', handleAbort);
+        };
+
+        // Wait for the first read to start the flow of data. If the body is never read, Node.js
+        // discards it on its own after the response is sent.
+        startReading = () => {
+          req.on('data', handleData);
+        };
+
+        req.on('end', handleEnd);
+        req.on('error', handleError);
+        req.on('close', handleClose);
+        signal?.addEventListener('abort', handleAbort, { once: true });
+      },
+      pull() {
+        if (!reading) {
+          reading = true;
+          startReading();
+        }
+        req.resume();
+      },
+      cancel() {
+        // Let Node.js discard the rest of the body
+        discard();
+      },
+    },
+    // Only pull when the stream is read, not as soon as it is created
+    { highWaterMark: 0 },
+  );
+}
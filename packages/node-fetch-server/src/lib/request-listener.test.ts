@@ -2,10 +2,17 @@ import * as assert from 'node:assert/strict';
 import { describe, it, mock } from 'node:test';
 
 import * as http from 'node:http';
+import * as net from 'node:net';
 import * as stream from 'node:stream';
 
+import { type AccessLogger } from './access-log.ts';
 import { type FetchHandler } from './fetch-handler.ts';
-import { createRequestListener } from './request-listener.ts';
+import {
+  type RequestListenerOptions,
+  createContinueListener,
+  createRequestListener,
+} from './request-listener.ts';
+import { setTrailers } from './trailers.ts';
 
 describe('createRequestListener', () => {
   it('returns a request listener', async () => {
@@ -206,6 +213,136 @@ describe('createRequestListener', () => {
     });
   });
 
+  it('calls accessLog after the response is sent', async () => {
+    let handler: FetchHandler = async () => {
+      return new Response('Hello, world!', { status: 201 });
+    };
+
+    let accessLog = mock.fn<AccessLogger>();
+    let listener = createRequestListener(handler, { accessLog });
+
+    let req = createMockRequest({ url: '/hello?name=world' });
+    let res = createMockResponse({ req });
+    mock.method(res, 'write', () => true);
+    mock.method(res, 'end', () => {});
+
+    await listener(req, res);
+
+    assert.equal(accessLog.mock.calls.length, 1);
+    let entry = accessLog.mock.calls[0].arguments[0];
+    assert.equal(entry.request.url, 'http://localhost/hello?name=world');
+    assert.equal(entry.status, 201);
+    assert.equal(entry.bytes, 13);
+    assert.ok(entry.startTime instanceof Date);
+    assert.ok(entry.duration >= 0);
+  });
+
+  it('returns a 413 "Content Too Large" response when the request body is larger than maxBodySize', async () => {
+    let handler: FetchHandler = async (request) => {
+      return new Response(await request.text());
+    };
+    let errorHandler = mock.fn();
+
+    let listener = createRequestListener(handler, { maxBodySize: 5, onError: errorHandler });
+
+    let req = createMockRequest({ method: 'POST', body: 'Hello, world!' });
+    let res = createMockResponse({ req });
+
+    let status: number | undefined;
+    mock.method(res, 'writeHead', (statusCode: number) => {
+      status = statusCode;
+    });
+
+    let chunks: Uint8Array[] = [];
+    mock.method(res, 'write', (chunk: Uint8Array) => {
+      chunks.push(chunk);
+    });
+    mock.method(res, 'end', () => {});
+
+    await listener(req, res);
+
+    assert.equal(status, 413);
+    assert.equal(Buffer.concat(chunks).toString(), 'Content Too Large');
+    assert.equal(errorHandler.mock.calls.length, 0);
+  });
+
+  let keepAliveTests: { name: string; options?: RequestListenerOptions }[] = [
+    { name: 'the handler does not read the request body' },
+    { name: 'the request body is larger than maxBodySize', options: { maxBodySize: 1024 } },
+  ];
+
+  keepAliveTests.forEach(({ name, options }) => {
+    it(`handles the next request on a keep-alive connection when ${name}`, async () => {
+      let handler: FetchHandler = async (request) => {
+        if (request.method === 'POST') {
+          // Catch the error so the connection isn't closed with a 413 response
+          await request.text().catch(() => {});
+        }
+        return new Response('ok');
+      };
+      let unreadHandler: FetchHandler = async () => new Response('ok');
+
+      let server = http.createServer(
+        createRequestListener(options ? handler : unreadHandler, options),
+      );
+      await new Promise<void>((resolve) => server.listen(0, resolve));
+      let port = (server.address() as net.AddressInfo).port;
+      let agent = new http.Agent({ keepAlive: true, maxSockets: 1 });
+
+      function send(method: string, body?: Buffer): Promise<number> {
+        return new Promise((resolve, reject) => {
+          let req = http.request({ port, method, agent, timeout: 2000 }, (res) => {
+            res.resume();
+            res.on('end', () => resolve(res.statusCode!));
+          });
+          req.on('timeout', () => req.destroy(new Error('Request timed out')));
+          req.on('error', reject);
+          // Send the body without a Content-Length, so it's only too large once it's received
+          if (body != null) req.write(body);
+          req.end();
+        });
+      }
+
+      try {
+        assert.equal(await send('POST', Buffer.alloc(2 * 1024 * 1024)), 200);
+        assert.equal(await send('GET'), 200);
+      } finally {
+        agent.destroy();
+        server.closeAllConnections();
+        await new Promise((resolve) => server.close(resolve));
+      }
+    });
+  });
+
+  it('sends trailers after the response body', async () => {
+    let events: string[] = [];
+    let handler: FetchHandler = async () => {
+      let response = new Response('Hello, world!', { headers: { Trailer: 'Server-Timing' } });
+      return setTrailers(response, () => {
+        events.push('trailers');
+        return { 'Server-Timing': 'total;dur=12' };
+      });
+    };
+
+    let listener = createRequestListener(handler);
+
+    let req = createMockRequest();
+    let res = createMockResponse({ req });
+    mock.method(res, 'write', () => {
+      events.push('write');
+      return true;
+    });
+    let addTrailers = mock.method(res, 'addTrailers', () => {});
+    mock.method(res, 'end', () => {
+      events.push('end');
+    });
+
+    await listener(req, res);
+
+    assert.deepEqual(events, ['write', 'trailers', 'end']);
+    assert.deepEqual(addTrailers.mock.calls[0].arguments[0], { 'server-timing': 'total;dur=12' });
+  });
+
   it('handles backpressure when writing response chunks', async () => {
     await new Promise<void>((resolve) => {
       let handler: FetchHandler = async () => {
@@ -272,6 +409,109 @@ describe('createRequestListener', () => {
   });
 });
 
+describe('createContinueListener', () => {
+  it('calls checkContinue before sending 100 Continue and calling the handler', async () => {
+    let handler = mock.fn<FetchHandler>(async (request) => new Response(await request.text()));
+    let checkContinue = mock.fn(() => {});
+    let listener = createContinueListener(handler, { checkContinue });
+
+    let req = createMockRequest({
+      method: 'POST',
+      headers: { Expect: '100-continue' },
+      body: 'Hello, world!',
+    });
+    let res = createMockResponse({ req });
+    let writeContinue = mock.method(res, 'writeContinue', () => {});
+    mock.method(res, 'write', () => true);
+
+    await listener(req, res);
+
+    assert.equal(checkContinue.mock.calls.length, 1);
+    assert.equal(writeContinue.mock.calls.length, 1);
+    assert.equal(handler.mock.calls.length, 1);
+  });
+
+  it('sends the response from checkContinue without calling the handler', async () => {
+    let handler = mock.fn<FetchHandler>(async () => new Response('Hello, world!'));
+    let listener = createContinueListener(handler, {
+      checkContinue: () => new Response('Unauthorized', { status: 401 }),
+    });
+
+    let req = createMockRequest({ method: 'POST', headers: { Expect: '100-continue' } });
+    let res = createMockResponse({ req });
+    let writeContinue = mock.method(res, 'writeContinue', () => {});
+
+    let status: number | undefined;
+    mock.method(res, 'writeHead', (statusCode: number) => {
+      status = statusCode;
+    });
+    mock.method(res, 'write', () => true);
+
+    await listener(req, res);
+
+    assert.equal(status, 401);
+    assert.equal(writeContinue.mock.calls.length, 0);
+    assert.equal(handler.mock.calls.length, 0);
+  });
+
+  it('sends 100 Continue once before the request body is sent', async () => {
+    let handler: FetchHandler = async (request) => new Response(await request.text());
+    let server = http.createServer(createRequestListener(handler));
+    server.on(
+      'checkContinue',
+      createContinueListener(handler, {
+        checkContinue: (request) =>
+          request.headers.has('Authorization')
+            ? undefined
+            : new Response('Unauthorized', { status: 401 }),
+      }),
+    );
+    await new Promise<void>((resolve) => server.listen(0, resolve));
+    let port = (server.address() as net.AddressInfo).port;
+
+    function send(headers: string[]): Promise<string> {
+      return new Promise((resolve, reject) => {
+        let socket = net.connect(port, 'localhost', () => {
+          socket.write(
+            [
+              'POST / HTTP/1.1',
+              'Host: localhost',
+              'Content-Length: 5',
+              'Expect: 100-continue',
+              'Connection: close',
+              ...headers,
+              '',
+              '',
+            ].join('\r\n'),
+          );
+        });
+
+        let data = '';
+        socket.on('data', (chunk) => {
+          data += chunk.toString('latin1');
+          // Only send the body once the server asks for it
+          if (data === 'HTTP/1.1 100 Continue\r\n\r\n') socket.write('Hello');
+        });
+        socket.on('close', () => resolve(data));
+        socket.on('error', reject);
+      });
+    }
+
+    try {
+      let accepted = await send(['Authorization: Bearer token']);
+      assert.equal(accepted.match(/100 Continue/g)?.length, 1);
+      assert.match(accepted, /\r\nHTTP\/1\.1 200 OK\r\n[\s\S]*Hello/);
+
+      let rejected = await send([]);
+      assert.doesNotMatch(rejected, /100 Continue/);
+      assert.match(rejected, /^HTTP\/1\.1 401 Unauthorized\r\n/);
+    } finally {
+      server.closeAllConnections();
+      await new Promise((resolve) => server.close(resolve));
+    }
+  });
+});
+
 function createMockRequest({
   url = '/',
   method = 'GET',
@@ -300,6 +540,9 @@ function createMockRequest({
     {
       url,
       method,
+      headers: Object.fromEntries(
+        Object.entries(headers).map(([key, value]) => [key.toLowerCase(), value]),
+      ),
       rawHeaders,
       socket,
     },
@@ -316,5 +559,7 @@ function createMockResponse({
     writeHead() {},
     write() {},
     end() {},
+    addTrailers() {},
+    writeContinue() {},
   }) as unknown as http.ServerResponse;
 }
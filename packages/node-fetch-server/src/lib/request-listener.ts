@@ -1,10 +1,25 @@
 import type * as http from 'node:http';
 import type * as http2 from 'node:http2';
 
-import type { ClientAddress, ErrorHandler, FetchHandler } from './fetch-handler.ts';
+import type { AccessLogger } from './access-log.ts';
+import { createContextKey, getContext } from './context.ts';
+import type { ContinueHandler, ErrorHandler, FetchHandler } from './fetch-handler.ts';
 import { readStream } from './read-stream.ts';
+import { MaxBodySizeExceededError, createRequestBody } from './request-body.ts';
+import { getTrailers } from './trailers.ts';
+import { type TrustProxy, getProxyInfo } from './trust-proxy.ts';
 
 export interface RequestListenerOptions {
+  /**
+   * A function that is called after each response is sent, with the request, the response status,
+   * the number of bytes sent and how long it took. Use `createAccessLogger()` to write these to a
+   * log in a standard format.
+   *
+   * ```ts
+   * createRequestListener(handler, { accessLog: createAccessLogger({ format: 'common' }) })
+   * ```
+   */
+  accessLog?: AccessLogger;
   /**
    * Overrides the host portion of the incoming request URL. By default the request URL host is
    * derived from the HTTP `Host` header.
@@ -17,6 +32,20 @@ export interface RequestListenerOptions {
    * ```
    */
   host?: string;
+  /**
+   * The maximum size of the request body in bytes. Reading a larger body from the request (e.g.
+   * with `request.text()`) throws a `MaxBodySizeExceededError`, and if the handler doesn't catch it
+   * the client gets a `413 Content Too Large` response. Requests with a `Content-Length` that is
+   * larger than this fail as soon as the body is read, without waiting for the body to arrive.
+   *
+   * ```ts
+   * // Limit request bodies to 1 MiB
+   * createRequestListener(handler, { maxBodySize: 1024 * 1024 })
+   * ```
+   *
+   * By default the request body size is not limited.
+   */
+  maxBodySize?: number;
   /**
    * An error handler that determines the response when the request handler throws an error. By
    * default a 500 Internal Server Error response will be sent.
@@ -28,6 +57,28 @@ export interface RequestListenerOptions {
    * `https.createServer()`), the request URL will begin with `https:`.
    */
   protocol?: string;
+  /**
+   * Trusts the [`Forwarded`](https://developer.mozilla.org/en-US/docs/Web/HTTP/Headers/Forwarded)
+   * header, or the `X-Forwarded-For`, `X-Forwarded-Proto` and `X-Forwarded-Host` headers when
+   * there is no `Forwarded` header, from the given proxies. Use this when the server runs behind a
+   * load balancer or reverse proxy, so the client address and the request URL are the ones the
+   * client used instead of the ones the proxy used.
+   *
+   * Only set this when the server is behind proxies that overwrite or append to these headers,
+   * since clients can send any values they like. The `host` and `protocol` options still take
+   * precedence. Forwarded client addresses without a port have a `port` of `0`.
+   *
+   * ```ts
+   * // Trust the load balancer that connects to the server
+   * createRequestListener(handler, { trustProxy: 1 })
+   *
+   * // Trust proxies on the private network
+   * createRequestListener(handler, { trustProxy: ['loopback', '10.0.0.0/8'] })
+   * ```
+   *
+   * By default these headers are not trusted.
+   */
+  trustProxy?: TrustProxy;
 }
 
 /**
@@ -64,37 +115,118 @@ export function createRequestListener(
   options?: RequestListenerOptions,
 ): http.RequestListener {
   let onError = options?.onError ?? defaultErrorHandler;
+  let accessLog = options?.accessLog;
 
   return async (req, res) => {
+    let startTime = new Date();
+    let start = performance.now();
     let request = createRequest(req, res, options);
-    let client = {
-      address: req.socket.remoteAddress!,
-      family: req.socket.remoteFamily! as ClientAddress['family'],
-      port: req.socket.remotePort!,
-    };
+    let { client } = getProxyInfo(req, options?.trustProxy);
 
     let response: Response;
     try {
       response = await handler(request, client);
     } catch (error) {
+      if (error instanceof MaxBodySizeExceededError) {
+        response = contentTooLarge();
+        // Close the connection instead of receiving the rest of a body nobody is going to read
+        if (req.httpVersionMajor === 1) response.headers.set('Connection', 'close');
+      } else {
+        try {
+          response = (await onError(error)) ?? internalServerError();
+        } catch (error) {
+          console.error(`There was an error in the error handler: ${error}`);
+          response = internalServerError();
+        }
+      }
+    }
+
+    let bytes = await sendResponse(res, response);
+
+    if (accessLog) {
       try {
-        response = (await onError(error)) ?? internalServerError();
+        accessLog({
+          request,
+          client,
+          httpVersion: req.httpVersion ?? '1.1',
+          status: response.status,
+          bytes,
+          startTime,
+          duration: performance.now() - start,
+        });
       } catch (error) {
-        console.error(`There was an error in the error handler: ${error}`);
-        response = internalServerError();
+        console.error(`There was an error in the access logger: ${error}`);
       }
     }
-
-    await sendResponse(res, response);
   };
 }
 
-function defaultErrorHandler(error: unknown): Response {
+export interface ContinueListenerOptions extends RequestListenerOptions {
+  /**
+   * A function that decides whether the client may send the body of the request. Return a response
+   * to reject the request without receiving the body. By default every request is accepted.
+   */
+  checkContinue?: ContinueHandler;
+}
+
+/**
+ * Wraps a fetch handler in a listener for the
+ * [`checkContinue` event](https://nodejs.org/api/http.html#event-checkcontinue) of a Node.js HTTP
+ * or HTTP/2 server, which is emitted instead of `request` for requests with an
+ * [`Expect: 100-continue`](https://developer.mozilla.org/en-US/docs/Web/HTTP/Headers/Expect) header.
+ * The `checkContinue` option is called before the client sends the body, e.g. to check that the
+ * client is allowed to upload a file before it is uploaded. If it doesn't return a response, the
+ * client is told to send the body with `100 Continue` and the request is passed to the handler.
+ *
+ * Example:
+ *
+ * ```ts
+ * import * as http from 'node:http';
+ * import { createContinueListener, createRequestListener } from '@mjackson/node-fetch-server';
+ *
+ * let server = http.createServer(createRequestListener(handler));
+ *
+ * server.on(
+ *   'checkContinue',
+ *   createContinueListener(handler, {
+ *     checkContinue(request) {
+ *       if (!request.headers.has('Authorization')) {
+ *         return new Response('Unauthorized', { status: 401 });
+ *       }
+ *     },
+ *   }),
+ * );
+ * ```
+ *
+ * Without a `checkContinue` listener, Node.js sends `100 Continue` to every client that asks for
+ * it before the request reaches the handler.
+ *
+ * @param handler The fetch handler to use for processing incoming requests.
+ * @param options Continue listener options.
+ * @returns A Node.js `checkContinue` event listener.
+ */
+export function createContinueListener(
+  handler: FetchHandler,
+  options?: ContinueListenerOptions,
+): http.RequestListener {
+  let checkContinue = options?.checkContinue;
+
+  return createRequestListener(async (request, client) => {
+    let rejection = await checkContinue?.(request, client);
+    if (rejection != null) return rejection;
+
+    getContext(request).get(ServerResponseKey)!.writeContinue();
+
+    return handler(request, client);
+  }, options);
+}
+
+export function defaultErrorHandler(error: unknown): Response {
   console.error(error);
   return internalServerError();
 }
 
-function internalServerError(): Response {
+export function internalServerError(): Response {
   return new Response(
     // "Internal Server Error"
     new Uint8Array([
@@ -110,8 +242,25 @@ function internalServerError(): Response {
   );
 }
 
+function contentTooLarge(): Response {
+  return new Response(
+    // "Content Too Large"
+    new Uint8Array([67, 111, 110, 116, 101, 110, 116, 32, 84, 111, 111, 32, 76, 97, 114, 103, 101]),
+    {
+      status: 413,
+      headers: {
+        'Content-Type': 'text/plain',
+      },
+    },
+  );
+}
+
 export type RequestOptions = Omit<RequestListenerOptions, 'onError'>;
 
+export const ServerResponseKey = createContextKey<
+  http.ServerResponse | http2.Http2ServerResponse | null
+>('serverResponse', null);
+
 /**
  * Creates a [`Request`](https://developer.mozilla.org/en-US/docs/Web/API/Request) object from
  *
@@ -133,27 +282,36 @@ export function createRequest(
     controller.abort();
   });
 
+  let request = createRequestWithSignal(req, controller.signal, options);
+  getContext(request).set(ServerResponseKey, res);
+
+  return request;
+}
+
+/**
+ * Creates a `Request` whose `signal` is the given signal. Used for requests that don't have a
+ * server response object, like WebSocket upgrade requests.
+ */
+export function createRequestWithSignal(
+  req: http.IncomingMessage | http2.Http2ServerRequest,
+  signal: AbortSignal,
+  options?: RequestOptions,
+): Request {
   let method = req.method ?? 'GET';
   let headers = createHeaders(req);
 
+  let proxy = getProxyInfo(req, options?.trustProxy);
   let protocol =
-    options?.protocol ?? ('encrypted' in req.socket && req.socket.encrypted ? 'https:' : 'http:');
-  let host = options?.host ?? headers.get('Host') ?? 'localhost';
+    options?.protocol ??
+    proxy.protocol ??
+    ('encrypted' in req.socket && req.socket.encrypted ? 'https:' : 'http:');
+  let host = options?.host ?? proxy.host ?? headers.get('Host') ?? 'localhost';
   let url = new URL(req.url!, `${protocol}//${host}`);
 
-  let init: RequestInit = { method, headers, signal: controller.signal };
+  let init: RequestInit = { method, headers, signal };
 
   if (method !== 'GET' && method !== 'HEAD') {
-    init.body = new ReadableStream({
-      start(controller) {
-        req.on('data', (chunk) => {
-          controller.enqueue(new Uint8Array(chunk.buffer, chunk.byteOffset, chunk.byteLength));
-        });
-        req.on('end', () => {
-          controller.close();
-        });
-      },
-    });
+    init.body = createRequestBody(req, options?.maxBodySize, signal);
 
     // init.duplex = 'half' must be set when body is a ReadableStream, and Node follows the spec.
     // However, this property is not defined in the TypeScript types for RequestInit, so we have
@@ -187,15 +345,16 @@ export function createHeaders(req: http.IncomingMessage | http2.Http2ServerReque
 /**
  * Sends a [`Response`](https://developer.mozilla.org/en-US/docs/Web/API/Response) to the client using a Node.js
  * [`http.ServerResponse`](https://nodejs.org/api/http.html#class-httpserverresponse)/[`http2.Http2ServerResponse`](https://nodejs.org/api/http2.html#class-http2http2serverresponse)
- * object.
+ * object. Trailers added to the response with `setTrailers()` are sent after the body.
  *
  * @param res The server response object.
  * @param response The response to send.
+ * @returns The number of bytes in the response body that were sent.
  */
 export async function sendResponse(
   res: http.ServerResponse | http2.Http2ServerResponse,
   response: Response,
-): Promise<void> {
+): Promise<number> {
   // Iterate over response.headers so we are sure to send multiple Set-Cookie headers correctly.
   // These would incorrectly be merged into a single header if we tried to use
   // `Object.fromEntries(response.headers.entries())`.
@@ -214,8 +373,10 @@ export async function sendResponse(
 
   res.writeHead(response.status, headers);
 
+  let bytes = 0;
   if (response.body != null && res.req.method !== 'HEAD') {
     for await (let chunk of readStream(response.body)) {
+      bytes += chunk.byteLength;
       // @ts-expect-error - Node typings for http2 require a 2nd parameter to write but it's optional
       if (res.write(chunk) === false) {
         await new Promise<void>((resolve) => {
@@ -225,5 +386,16 @@ export async function sendResponse(
     }
   }
 
+  let trailers = getTrailers(response);
+  if (trailers != null) {
+    try {
+      res.addTrailers(Object.fromEntries(new Headers(await trailers())));
+    } catch (error) {
+      console.error(`There was an error getting the response trailers: ${error}`);
+    }
+  }
+
   res.end();
+
+  return bytes;
 }
@@ -0,0 +1,216 @@
+import * as assert from 'node:assert/strict';
+import { after, before, describe, it } from 'node:test';
+
+import * as fs from 'node:fs';
+import * as os from 'node:os';
+import * as path from 'node:path';
+
+import { type ClientAddress, type FetchHandler } from './fetch-handler.ts';
+import { createStaticHandler, type StaticHandlerOptions } from './static-handler.ts';
+
+const client: ClientAddress = { address: '127.0.0.1', family: 'IPv4', port: 12345 };
+
+describe('createStaticHandler', () => {
+  let rootDir: string;
+
+  before(() => {
+    rootDir = fs.mkdtempSync(path.join(os.tmpdir(), 'static-handler-'));
+    fs.writeFileSync(path.join(rootDir, 'hello.txt'), 'Hello, world!');
+    fs.writeFileSync(path.join(rootDir, 'index.html'), '<h1>Home</h1>');
+    fs.writeFileSync(path.join(rootDir, '.env'), 'SECRET=1');
+    fs.mkdirSync(path.join(rootDir, 'a'));
+    fs.writeFileSync(path.join(rootDir, 'a', '.env'), 'SECRET=2');
+    fs.writeFileSync(path.join(rootDir, 'a\\.env'), 'SECRET=3');
+    fs.mkdirSync(path.join(rootDir, 'docs'));
+    fs.writeFileSync(path.join(rootDir, 'docs', 'index.html'), '<h1>Docs</h1>');
+    fs.mkdirSync(path.join(rootDir, 'empty'));
+    fs.writeFileSync(path.join(path.dirname(rootDir), 'secret.txt'), 'secret');
+  });
+
+  after(() => {
+    fs.rmSync(rootDir, { recursive: true, force: true });
+    fs.rmSync(path.join(path.dirname(rootDir), 'secret.txt'), { force: true });
+  });
+
+  function fetch(
+    pathname: string,
+    init?: RequestInit,
+    options?: StaticHandlerOptions,
+  ): Promise<Response> {
+    let handler: FetchHandler = createStaticHandler(rootDir, options);
+    return Promise.resolve(handler(new Request(`http://localhost${pathname}`, init), client));
+  }
+
+  it('serves files with their metadata', async () => {
+    let response = await fetch('/hello.txt');
+    assert.equal(response.status, 200);
+    assert.equal(response.headers.get('Content-Type'), 'text/plain');
+    assert.equal(response.headers.get('Content-Length'), '13');
+    assert.equal(response.headers.get('Accept-Ranges'), 'bytes');
+    assert.ok(response.headers.get('ETag')?.startsWith('W/"'));
+    assert.equal(
+      response.headers.get('Last-Modified'),
+      fs.statSync(path.join(rootDir, 'hello.txt')).mtime.toUTCString(),
+    );
+    assert.equal(await response.text(), 'Hello, world!');
+  });
+
+  it('sends no body for HEAD requests', async () => {
+    let response = await fetch('/hello.txt', { method: 'HEAD' });
+    assert.equal(response.status, 200);
+    assert.equal(response.headers.get('Content-Length'), '13');
+    assert.equal(response.body, null);
+  });
+
+  it('sends Cache-Control when the cacheControl option is set', async () => {
+    let response = await fetch('/hello.txt', undefined, { cacheControl: 'public, max-age=3600' });
+    assert.equal(response.headers.get('Cache-Control'), 'public, max-age=3600');
+  });
+
+  it('responds with 405 for other methods', async () => {
+    let response = await fetch('/hello.txt', { method: 'POST' });
+    assert.equal(response.status, 405);
+    assert.equal(response.headers.get('Allow'), 'GET, HEAD');
+  });
+
+  it('responds with 404 for missing files', async () => {
+    let response = await fetch('/missing.txt');
+    assert.equal(response.status, 404);
+  });
+
+  it('does not serve files outside of the root directory', async () => {
+    let response = await fetch('/..%2fsecret.txt');
+    assert.equal(response.status, 403);
+    assert.equal((await fetch('/../secret.txt')).status, 404);
+    assert.equal((await fetch('/%2e%2e/secret.txt')).status, 404);
+  });
+
+  it('responds with 400 for malformed paths', async () => {
+    assert.equal((await fetch('/%E0%A4%A')).status, 400);
+    assert.equal((await fetch('/hello.txt%00.html')).status, 400);
+  });
+
+  describe('directories', () => {
+    it('serves index files', async () => {
+      let response = await fetch('/');
+      assert.equal(response.status, 200);
+      assert.equal(response.headers.get('Content-Type'), 'text/html');
+      assert.equal(await response.text(), '<h1>Home</h1>');
+      assert.equal(await (await fetch('/docs/')).text(), '<h1>Docs</h1>');
+    });
+
+    it('redirects to add a trailing slash', async () => {
+      let response = await fetch('/docs?page=2');
+      assert.equal(response.status, 301);
+      assert.equal(response.headers.get('Location'), '/docs/?page=2');
+    });
+
+    it('responds with 404 for directories without an index file', async () => {
+      assert.equal((await fetch('/empty/')).status, 404);
+    });
+
+    it('uses the index option', async () => {
+      assert.equal((await fetch('/', undefined, { index: false })).status, 404);
+      let response = await fetch('/', undefined, { index: ['missing.html', 'hello.txt'] });
+      assert.equal(await response.text(), 'Hello, world!');
+    });
+  });
+
+  describe('dotfiles', () => {
+    let dotfilesTests: {
+      dotfiles: StaticHandlerOptions['dotfiles'];
+      status: number;
+    }[] = [
+      { dotfiles: undefined, status: 404 },
+      { dotfiles: 'ignore', status: 404 },
+      { dotfiles: 'deny', status: 403 },
+      { dotfiles: 'allow', status: 200 },
+    ];
+
+    dotfilesTests.forEach(({ dotfiles, status }) => {
+      it(`responds with ${status} when dotfiles is ${dotfiles}`, async () => {
+        let response = await fetch('/.env', undefined, { dotfiles });
+        assert.equal(response.status, status);
+      });
+    });
+
+    ['/a/.env', '/a%2F.env', '/a%2f.env', '/a%5C.env'].forEach((pathname) => {
+      it(`does not serve ${pathname}`, async () => {
+        assert.equal((await fetch(pathname)).status, 404);
+        assert.equal((await fetch(pathname, undefined, { dotfiles: 'deny' })).status, 403);
+      });
+    });
+  });
+
+  describe('conditional requests', () => {
+    it('responds with 304 when If-None-Match matches the ETag', async () => {
+      let etag = (await fetch('/hello.txt')).headers.get('ETag')!;
+      let response = await fetch('/hello.txt', { headers: { 'If-None-Match': etag } });
+      assert.equal(response.status, 304);
+      assert.equal(response.headers.get('ETag'), etag);
+      assert.equal(response.body, null);
+
+      let strong = etag.slice(2);
+      assert.equal(
+        (await fetch('/hello.txt', { headers: { 'If-None-Match': strong } })).status,
+        304,
+      );
+      assert.equal((await fetch('/hello.txt', { headers: { 'If-None-Match': '*' } })).status, 304);
+    });
+
+    it('responds with 200 when If-None-Match does not match', async () => {
+      let response = await fetch('/hello.txt', {
+        headers: {
+          'If-None-Match': '"nope"',
+          // If-Modified-Since is ignored when If-None-Match is present
+          'If-Modified-Since': new Date(Date.now() + 60_000).toUTCString(),
+        },
+      });
+      assert.equal(response.status, 200);
+    });
+
+    it('uses If-Modified-Since', async () => {
+      let lastModified = (await fetch('/hello.txt')).headers.get('Last-Modified')!;
+      let response = await fetch('/hello.txt', { headers: { 'If-Modified-Since': lastModified } });
+      assert.equal(response.status, 304);
+
+      let earlier = new Date(Date.parse(lastModified) - 60_000).toUTCString();
+      response = await fetch('/hello.txt', { headers: { 'If-Modified-Since': earlier } });
+      assert.equal(response.status, 200);
+    });
+
+    it('ignores conditional headers when etag and lastModified are disabled', async () => {
+      let response = await fetch(
+        '/hello.txt',
+        { headers: { 'If-None-Match': '*', 'If-Modified-Since': new Date().toUTCString() } },
+        { etag: false, lastModified: false },
+      );
+      assert.equal(response.status, 200);
+      assert.equal(response.headers.get('ETag'), null);
+      assert.equal(response.headers.get('Last-Modified'), null);
+    });
+  });
+
+  describe('range requests', () => {
+    it('responds with 206 for satisfiable ranges', async () => {
+      let response = await fetch('/hello.txt', { headers: { Range: 'bytes=7-' } });
+      assert.equal(response.status, 206);
+      assert.equal(response.headers.get('Content-Range'), 'bytes 7-12/13');
+      assert.equal(await response.text(), 'world!');
+    });
+
+    it('uses If-Range with the Last-Modified date', async () => {
+      let lastModified = (await fetch('/hello.txt')).headers.get('Last-Modified')!;
+      let response = await fetch('/hello.txt', {
+        headers: { Range: 'bytes=0-4', 'If-Range': lastModified },
+      });
+      assert.equal(response.status, 206);
+
+      let earlier = new Date(Date.parse(lastModified) - 60_000).toUTCString();
+      response = await fetch('/hello.txt', {
+        headers: { Range: 'bytes=0-4', 'If-Range': earlier },
+      });
+      assert.equal(response.status, 200);
+    });
+  });
+});
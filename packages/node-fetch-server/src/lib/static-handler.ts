@@ -0,0 +1,185 @@
+import * as fsp from 'node:fs/promises';
+import * as path from 'node:path';
+import { SuperHeaders } from '@mjackson/headers';
+import { openFile } from '@mjackson/lazy-file/fs';
+
+import type { FetchHandler } from './fetch-handler.ts';
+import { createFileResponse } from './file-response.ts';
+
+export interface StaticHandlerOptions {
+  /**
+   * The value of the `Cache-Control` header to send with files. By default no `Cache-Control`
+   * header is sent.
+   */
+  cacheControl?: string;
+  /**
+   * How to handle requests for "dotfiles", i.e. files or directories whose name begins with a `.`.
+   *
+   * - `'allow'`: serve dotfiles like any other file
+   * - `'deny'`: respond with `403 Forbidden`
+   * - `'ignore'`: respond with `404 Not Found`, as if the file did not exist
+   *
+   * Default is `'ignore'`.
+   */
+  dotfiles?: 'allow' | 'deny' | 'ignore';
+  /**
+   * Set to `false` to disable sending the `ETag` header and handling `If-None-Match`. Default is
+   * `true`.
+   */
+  etag?: boolean;
+  /**
+   * The names of files to serve when a directory is requested, in order of preference. Set to
+   * `false` to disable directory index files. Default is `['index.html']`.
+   */
+  index?: string[] | false;
+  /**
+   * Set to `false` to disable sending the `Last-Modified` header and handling
+   * `If-Modified-Since`. Default is `true`.
+   */
+  lastModified?: boolean;
+}
+
+/**
+ * Creates a fetch handler that serves files from a directory on the local filesystem.
+ *
+ * The handler responds to `GET` and `HEAD` requests with the file at the request's pathname,
+ * relative to `rootDir`. It sends the `Content-Type`, `Content-Length`, `Last-Modified` and `ETag`
+ * headers, responds with `304 Not Modified` to conditional requests for files that have not
+ * changed, and serves range requests using `createFileResponse()`. Requests for paths outside of
+ * `rootDir` are rejected.
+ *
+ * Example:
+ *
+ * ```ts
+ * import * as http from 'node:http';
+ * import { createRequestListener, createStaticHandler } from '@mjackson/node-fetch-server';
+ *
+ * let server = http.createServer(
+ *   createRequestListener(createStaticHandler('./public'))
+ * );
+ *
+ * server.listen(3000);
+ * ```
+ *
+ * @param rootDir The directory to serve files from.
+ * @param options Static handler options.
+ * @returns A fetch handler.
+ */
+export function createStaticHandler(rootDir: string, options?: StaticHandlerOptions): FetchHandler {
+  let root = path.resolve(rootDir);
+  let cacheControl = options?.cacheControl;
+  let dotfiles = options?.dotfiles ?? 'ignore';
+  let useEtag = options?.etag ?? true;
+  let indexFiles = options?.index === false ? [] : (options?.index ?? ['index.html']);
+  let useLastModified = options?.lastModified ?? true;
+
+  return async (request) => {
+    if (request.method !== 'GET' && request.method !== 'HEAD') {
+      return textResponse('Method Not Allowed', 405, { Allow: 'GET, HEAD' });
+    }
+
+    let url = new URL(request.url);
+
+    let segments: string[];
+    try {
+      segments = url.pathname.split('/').map(decodeURIComponent);
+    } catch {
+      return textResponse('Bad Request', 400);
+    }
+
+    if (segments.some((segment) => segment.includes('\0'))) {
+      return textResponse('Bad Request', 400);
+    }
+
+    let filename = path.join(root, ...segments);
+    if (filename !== root && !filename.startsWith(root + path.sep)) {
+      return textResponse('Forbidden', 403);
+    }
+
+    // Check the components of the resolved path, since a segment may contain an encoded `/` or `\`
+    let names = path.relative(root, filename).split(/[\\/]/);
+    if (dotfiles !== 'allow' && names.some((name) => name.startsWith('.'))) {
+      return dotfiles === 'deny' ? textResponse('Forbidden', 403) : textResponse('Not Found', 404);
+    }
+
+    let stats = await statOrNull(filename);
+    if (stats?.isDirectory()) {
+      if (indexFiles.length === 0) {
+        return textResponse('Not Found', 404);
+      }
+
+      // Redirect so relative URLs in the index file resolve against the directory
+      if (!url.pathname.endsWith('/')) {
+        return new Response(null, {
+          status: 301,
+          headers: { Location: url.pathname + '/' + url.search },
+        });
+      }
+
+      stats = null;
+      for (let indexFile of indexFiles) {
+        let indexFilename = path.join(filename, indexFile);
+        let indexStats = await statOrNull(indexFilename);
+        if (indexStats?.isFile()) {
+          filename = indexFilename;
+          stats = indexStats;
+          break;
+        }
+      }
+    }
+
+    if (stats == null || !stats.isFile()) {
+      return textResponse('Not Found', 404);
+    }
+
+    let file = openFile(filename);
+    let requestHeaders = new SuperHeaders(request.headers);
+    let headers = new SuperHeaders();
+
+    if (cacheControl !== undefined) headers.cacheControl = cacheControl;
+    if (useLastModified) headers.lastModified = file.lastModified;
+    if (useEtag) headers.etag = `W/"${file.size.toString(16)}-${file.lastModified.toString(16)}"`;
+
+    if (isNotModified(requestHeaders, headers)) {
+      return new Response(null, { status: 304, headers });
+    }
+
+    return createFileResponse(file, request, { headers });
+  };
+}
+
+async function statOrNull(filename: string) {
+  try {
+    return await fsp.stat(filename);
+  } catch {
+    return null;
+  }
+}
+
+// See https://datatracker.ietf.org/doc/html/rfc9110#section-13.2.2
+function isNotModified(requestHeaders: SuperHeaders, headers: SuperHeaders): boolean {
+  let ifNoneMatch = requestHeaders.ifNoneMatch;
+  if (ifNoneMatch.tags.length > 0) {
+    // If-None-Match uses the weak comparison function, so W/"x" matches "x"
+    let etag = headers.etag;
+    return etag != null && (ifNoneMatch.matches(etag) || ifNoneMatch.has(etag.replace(/^W\//, '')));
+  }
+
+  let ifModifiedSince = requestHeaders.ifModifiedSince;
+  let lastModified = headers.lastModified;
+  if (ifModifiedSince != null && lastModified != null) {
+    // HTTP dates only have second precision
+    return (
+      Math.floor(lastModified.getTime() / 1000) <= Math.floor(ifModifiedSince.getTime() / 1000)
+    );
+  }
+
+  return false;
+}
+
+function textResponse(text: string, status: number, headers?: HeadersInit): Response {
+  return new Response(text, {
+    status,
+    headers: { 'Content-Type': 'text/plain', ...headers },
+  });
+}
@@ -0,0 +1,50 @@
+/**
+ * A function that returns the trailers to send after the response body.
+ */
+export interface TrailersFunction {
+  (): HeadersInit | Promise<HeadersInit>;
+}
+
+const trailers = new WeakMap<Response, TrailersFunction>();
+
+/**
+ * Sends trailers (headers that come after the body) with a response. The function is called after
+ * the whole body has been sent, so trailers can contain values that are only known at that point,
+ * like a [`Server-Timing`](https://developer.mozilla.org/en-US/docs/Web/HTTP/Headers/Server-Timing)
+ * metric for how long it took to stream the body. Works with both HTTP/1.1 and HTTP/2 servers.
+ *
+ * Over HTTP/1.1 trailers can only be sent with chunked responses, so the response must not have a
+ * `Content-Length` header, and they are dropped for HTTP/1.0 clients. List the names of the trailers
+ * in the [`Trailer`](https://developer.mozilla.org/en-US/docs/Web/HTTP/Headers/Trailer) header
+ * so clients know to expect them.
+ *
+ * Trailers belong to the response object, so middleware that replaces the response (e.g. to
+ * change its body) must call `setTrailers()` on the new response to keep them.
+ *
+ * Example:
+ *
+ * ```ts
+ * async function handler(request: Request) {
+ *   let start = performance.now();
+ *   let response = new Response(renderToStream(request), {
+ *     headers: { 'Content-Type': 'text/html', Trailer: 'Server-Timing' },
+ *   });
+ *
+ *   return setTrailers(response, () => ({
+ *     'Server-Timing': `render;dur=${performance.now() - start}`,
+ *   }));
+ * }
+ * ```
+ *
+ * @param response The response to send trailers with.
+ * @param getTrailers A function that returns the trailers.
+ * @returns The response.
+ */
+export function setTrailers(response: Response, getTrailers: TrailersFunction): Response {
+  trailers.set(response, getTrailers);
+  return response;
+}
+
+export function getTrailers(response: Response): TrailersFunction | undefined {
+  return trailers.get(response);
+}
@@ -0,0 +1,249 @@
+import * as assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+
+import type * as http from 'node:http';
+
+import { createRequest } from './request-listener.ts';
+import { type TrustProxy, getProxyInfo } from './trust-proxy.ts';
+
+function createMockRequest(
+  headers: Record<string, string> = {},
+  remoteAddress = '10.0.0.1',
+): http.IncomingMessage {
+  let rawHeaders = Object.entries(headers).flatMap(([key, value]) => [key, value]);
+  return {
+    url: '/',
+    method: 'GET',
+    headers: Object.fromEntries(
+      Object.entries(headers).map(([key, value]) => [key.toLowerCase(), value]),
+    ),
+    rawHeaders,
+    socket: {
+      remoteAddress,
+      remoteFamily: remoteAddress.includes(':') ? 'IPv6' : 'IPv4',
+      remotePort: 54321,
+    },
+  } as unknown as http.IncomingMessage;
+}
+
+function createMockResponse(): http.ServerResponse {
+  return { on() {} } as unknown as http.ServerResponse;
+}
+
+describe('getProxyInfo', () => {
+  let xForwardedFor = { 'X-Forwarded-For': '203.0.113.7, 192.168.1.2, 10.0.0.2' };
+
+  let addressTests: { trustProxy: TrustProxy | undefined; address: string }[] = [
+    { trustProxy: undefined, address: '10.0.0.1' },
+    { trustProxy: false, address: '10.0.0.1' },
+    { trustProxy: true, address: '203.0.113.7' },
+    { trustProxy: 0, address: '10.0.0.1' },
+    { trustProxy: 1, address: '10.0.0.2' },
+    { trustProxy: 2, address: '192.168.1.2' },
+    { trustProxy: 5, address: '203.0.113.7' },
+    { trustProxy: '10.0.0.1', address: '10.0.0.2' },
+    { trustProxy: '10.0.0.0/8', address: '192.168.1.2' },
+    { trustProxy: '10.0.0.0/8, 192.168.0.0/16', address: '203.0.113.7' },
+    { trustProxy: ['uniquelocal'], address: '203.0.113.7' },
+    { trustProxy: ['loopback'], address: '10.0.0.1' },
+    { trustProxy: (address) => address.startsWith('10.'), address: '192.168.1.2' },
+    { trustProxy: (_address, hop) => hop === 0, address: '10.0.0.2' },
+  ];
+
+  addressTests.forEach(({ trustProxy, address }) => {
+    it(`uses ${address} as the client address when trustProxy is ${trustProxy}`, () => {
+      let info = getProxyInfo(createMockRequest(xForwardedFor), trustProxy);
+      assert.equal(info.client.address, address);
+    });
+  });
+
+  it('uses the socket address when there are no forwarded headers', () => {
+    let info = getProxyInfo(createMockRequest(), true);
+    assert.deepEqual(info, { client: { address: '10.0.0.1', family: 'IPv4', port: 54321 } });
+  });
+
+  it('uses the Forwarded header', () => {
+    let info = getProxyInfo(
+      createMockRequest({
+        Forwarded: 'for="[2001:db8:cafe::17]:4711";proto=https;host=example.com, for=10.0.0.2',
+        'X-Forwarded-For': '203.0.113.7',
+      }),
+      true,
+    );
+    assert.deepEqual(info, {
+      client: { address: '2001:db8:cafe::17', family: 'IPv6', port: 4711 },
+      protocol: 'https:',
+      host: 'example.com',
+    });
+  });
+
+  it('uses the X-Forwarded-Proto and X-Forwarded-Host headers', () => {
+    let info = getProxyInfo(
+      createMockRequest({
+        'X-Forwarded-For': '203.0.113.7',
+        'X-Forwarded-Proto': 'HTTPS',
+        'X-Forwarded-Host': 'example.com',
+      }),
+      1,
+    );
+    assert.deepEqual(info, {
+      client: { address: '203.0.113.7', family: 'IPv4', port: 0 },
+      protocol: 'https:',
+      host: 'example.com',
+    });
+  });
+
+  let withoutClientTests: { name: string; headers: Record<string, string>; host?: string }[] = [
+    {
+      name: 'X-Forwarded-Proto without X-Forwarded-For',
+      headers: { 'X-Forwarded-Proto': 'https' },
+    },
+    {
+      name: 'X-Forwarded-Proto and X-Forwarded-Host without X-Forwarded-For',
+      headers: { 'X-Forwarded-Proto': 'https', 'X-Forwarded-Host': 'example.com' },
+      host: 'example.com',
+    },
+    {
+      name: 'Forwarded without for',
+      headers: { Forwarded: 'proto=https;host=example.com' },
+      host: 'example.com',
+    },
+    { name: 'Forwarded with for=unknown', headers: { Forwarded: 'for=unknown;proto=https' } },
+  ];
+
+  withoutClientTests.forEach(({ name, headers, host }) => {
+    it(`uses the protocol and host from ${name}`, () => {
+      let info = getProxyInfo(createMockRequest(headers), true);
+      assert.equal(info.client.address, '10.0.0.1');
+      assert.equal(info.protocol, 'https:');
+      assert.equal(info.host, host);
+    });
+  });
+
+  it('lines up X-Forwarded-* lists of different lengths from the end', () => {
+    let req = createMockRequest({
+      'X-Forwarded-For': '203.0.113.7',
+      'X-Forwarded-Proto': 'https, http',
+    });
+
+    let info = getProxyInfo(req, 1);
+    assert.equal(info.client.address, '203.0.113.7');
+    assert.equal(info.protocol, 'http:');
+
+    info = getProxyInfo(req, 2);
+    assert.equal(info.client.address, '203.0.113.7');
+    assert.equal(info.protocol, 'https:');
+  });
+
+  it('ignores the protocol and host from untrusted proxies', () => {
+    let info = getProxyInfo(
+      createMockRequest({ Forwarded: 'proto=https;host=example.com' }),
+      '192.168.0.0/16',
+    );
+    assert.deepEqual(info, { client: { address: '10.0.0.1', family: 'IPv4', port: 54321 } });
+  });
+
+  let invalidTests: { name: string; headers: Record<string, string> }[] = [
+    { name: 'X-Forwarded-Proto', headers: { 'X-Forwarded-Proto': 'a b' } },
+    { name: 'X-Forwarded-Proto', headers: { 'X-Forwarded-Proto': 'javascript' } },
+    { name: 'X-Forwarded-Host', headers: { 'X-Forwarded-Host': 'a b' } },
+    { name: 'X-Forwarded-Host', headers: { 'X-Forwarded-Host': 'evil.com/path' } },
+    { name: 'X-Forwarded-Host', headers: { 'X-Forwarded-Host': 'user@evil.com' } },
+    { name: 'Forwarded', headers: { Forwarded: 'proto="a b";host="a b"' } },
+  ];
+
+  invalidTests.forEach(({ name, headers }) => {
+    it(`ignores an invalid ${name} value ${JSON.stringify(Object.values(headers)[0])}`, () => {
+      let info = getProxyInfo(createMockRequest(headers), 1);
+      assert.deepEqual(info, { client: { address: '10.0.0.1', family: 'IPv4', port: 54321 } });
+    });
+  });
+
+  it('keeps valid values from closer proxies when a further one is invalid', () => {
+    let info = getProxyInfo(
+      createMockRequest({
+        'X-Forwarded-Proto': 'a b, https',
+        'X-Forwarded-Host': 'a b, example.com:8080',
+      }),
+      true,
+    );
+    assert.equal(info.protocol, 'https:');
+    assert.equal(info.host, 'example.com:8080');
+  });
+
+  it('ignores values that were added before the trusted proxies', () => {
+    let info = getProxyInfo(
+      createMockRequest({
+        'X-Forwarded-For': '198.51.100.1, 203.0.113.7',
+        'X-Forwarded-Proto': 'https, http',
+      }),
+      1,
+    );
+    assert.equal(info.client.address, '203.0.113.7');
+    assert.equal(info.protocol, 'http:');
+  });
+
+  it('stops at unknown and obfuscated identifiers', () => {
+    let info = getProxyInfo(
+      createMockRequest({ Forwarded: 'for=203.0.113.7, for=_hidden, for=10.0.0.2' }),
+      true,
+    );
+    assert.equal(info.client.address, '10.0.0.2');
+  });
+
+  it('trusts IPv4-mapped IPv6 socket addresses', () => {
+    let info = getProxyInfo(createMockRequest(xForwardedFor, '::ffff:10.0.0.1'), '10.0.0.1');
+    assert.equal(info.client.address, '10.0.0.2');
+  });
+
+  it('throws on invalid addresses', () => {
+    assert.throws(
+      () => getProxyInfo(createMockRequest(xForwardedFor), 'example.com'),
+      /Invalid trustProxy address: example.com/,
+    );
+  });
+});
+
+describe('createRequest', () => {
+  it('uses the forwarded protocol and host from trusted proxies', () => {
+    let req = createMockRequest({
+      Host: 'internal:3000',
+      'X-Forwarded-For': '203.0.113.7',
+      'X-Forwarded-Proto': 'https',
+      'X-Forwarded-Host': 'example.com',
+    });
+
+    let request = createRequest(req, createMockResponse(), { trustProxy: 1 });
+    assert.equal(request.url, 'https://example.com/');
+
+    let untrusted = createRequest(req, createMockResponse());
+    assert.equal(untrusted.url, 'http://internal:3000/');
+  });
+
+  it('ignores invalid forwarded protocols and hosts', () => {
+    let req = createMockRequest({
+      Host: 'internal:3000',
+      'X-Forwarded-For': '203.0.113.7',
+      'X-Forwarded-Proto': 'a b',
+      'X-Forwarded-Host': 'a b',
+    });
+
+    let request = createRequest(req, createMockResponse(), { trustProxy: 1 });
+    assert.equal(request.url, 'http://internal:3000/');
+  });
+
+  it('prefers the host and protocol options', () => {
+    let req = createMockRequest({
+      'X-Forwarded-For': '203.0.113.7',
+      'X-Forwarded-Proto': 'https',
+      'X-Forwarded-Host': 'example.com',
+    });
+
+    let request = createRequest(req, createMockResponse(), {
+      trustProxy: true,
+      host: 'remix.run',
+      protocol: 'http:',
+    });
+    assert.equal(request.url, 'http://remix.run/');
+  });
+});
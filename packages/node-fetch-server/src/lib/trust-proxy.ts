@@ -0,0 +1,186 @@
+import type * as http from 'node:http';
+import type * as http2 from 'node:http2';
+import * as net from 'node:net';
+import { Forwarded } from '@mjackson/headers';
+
+import type { ClientAddress } from './fetch-handler.ts';
+
+/**
+ * Determines which proxies in front of the server are trusted to tell it about the client. May be:
+ *
+ * - `true` to trust every proxy
+ * - a number of hops to trust, counting from the server, e.g. `1` when there is a single load
+ *   balancer in front of it
+ * - an IP address or [CIDR](https://developer.mozilla.org/en-US/docs/Glossary/CIDR) range, or a
+ *   list of them, e.g. `['10.0.0.0/8', '::1']`. The names `loopback`, `linklocal` and
+ *   `uniquelocal` may be used for those (IPv4 and IPv6) ranges.
+ * - a function that is called with the address of each proxy, and its distance from the server
+ *   (starting at `0` for the one that connected to the server), and returns `true` to trust it
+ */
+export type TrustProxy = boolean | number | string | string[] | TrustProxyFunction;
+
+/**
+ * A function that returns `true` if the proxy with the given address should be trusted.
+ */
+export interface TrustProxyFunction {
+  (address: string, hop: number): boolean;
+}
+
+export interface ProxyInfo {
+  client: ClientAddress;
+  host?: string;
+  protocol?: string;
+}
+
+interface Hop {
+  for?: string;
+  host?: string;
+  proto?: string;
+}
+
+/**
+ * Works out the client address, and the protocol and host the client used, from the `Forwarded`
+ * or `X-Forwarded-*` headers that were added by trusted proxies.
+ */
+export function getProxyInfo(
+  req: http.IncomingMessage | http2.Http2ServerRequest,
+  trustProxy: TrustProxy | undefined,
+): ProxyInfo {
+  let client: ClientAddress = {
+    address: req.socket.remoteAddress!,
+    family: req.socket.remoteFamily! as ClientAddress['family'],
+    port: req.socket.remotePort!,
+  };
+
+  if (trustProxy == null || trustProxy === false) return { client };
+
+  let trust = compileTrust(trustProxy);
+  let hops = getHops(req);
+  let info: ProxyInfo = { client };
+
+  for (let hop = 0; hop < hops.length; ++hop) {
+    if (!trust(info.client.address, hop)) break;
+
+    // Proxies further from the server know more about the original request, and some only send
+    // these headers at the edge, so keep the values from the furthest trusted proxy. Values that
+    // can't be used in a URL are ignored, since a trusted proxy may pass them on from the client.
+    let proto = hops[hop].proto?.toLowerCase();
+    if (proto === 'http' || proto === 'https') info.protocol = proto + ':';
+    let host = hops[hop].host;
+    if (host != null && isValidHost(host)) info.host = host;
+
+    // The proxy that sent this hop is trusted, but we can only go on to the one before it if we
+    // know its address (`for` may be missing, `unknown` or obfuscated)
+    let forwardedFor = parseNode(hops[hop].for);
+    if (forwardedFor == null) break;
+
+    info.client = forwardedFor;
+  }
+
+  return info;
+}
+
+// Returns the information each proxy added about the request it received, starting with the proxy
+// that connected to the server
+function getHops(req: http.IncomingMessage | http2.Http2ServerRequest): Hop[] {
+  let forwarded = getHeader(req, 'forwarded');
+  if (forwarded != null) {
+    return new Forwarded(forwarded).elements.reverse();
+  }
+
+  let forwardedFor = splitList(getHeader(req, 'x-forwarded-for'));
+  let forwardedProto = splitList(getHeader(req, 'x-forwarded-proto'));
+  let forwardedHost = splitList(getHeader(req, 'x-forwarded-host'));
+
+  // Each proxy appends to the end of these lists, so line them up from the end. Some proxies only
+  // send some of the headers, so there are as many hops as there are values in the longest list.
+  let length = Math.max(forwardedFor.length, forwardedProto.length, forwardedHost.length);
+  let hops: Hop[] = [];
+  for (let index = 1; index <= length; ++index) {
+    hops.push({
+      for: forwardedFor[forwardedFor.length - index],
+      proto: forwardedProto[forwardedProto.length - index],
+      host: forwardedHost[forwardedHost.length - index],
+    });
+  }
+
+  return hops;
+}
+
+function getHeader(
+  req: http.IncomingMessage | http2.Http2ServerRequest,
+  name: string,
+): string | undefined {
+  let value = req.headers[name];
+  return Array.isArray(value) ? value.join(', ') : value;
+}
+
+function splitList(value: string | undefined): string[] {
+  if (value == null) return [];
+  return value
+    .split(',')
+    .map((item) => item.trim())
+    .filter((item) => item !== '');
+}
+
+// A host is valid if it can be used as the authority of a URL with nothing else in it
+function isValidHost(host: string): boolean {
+  if (/[/?#@\\]/.test(host)) return false;
+  return URL.canParse(`http://${host}`);
+}
+
+// Parses a node like `192.0.2.43`, `192.0.2.43:8080` or `[2001:db8::17]:4711`. Returns `null` for
+// `unknown` and obfuscated identifiers, since they can't be used as a client address.
+function parseNode(node: string | undefined): ClientAddress | null {
+  if (node == null) return null;
+
+  let match = /^\[([^\]]+)\](?::(\d+))?$/.exec(node) ?? /^([^:]+)(?::(\d+))?$/.exec(node);
+  let address = match ? match[1] : node;
+  let port = match?.[2] ? parseInt(match[2], 10) : 0;
+
+  let version = net.isIP(address);
+  if (version === 0) return null;
+
+  return { address, family: version === 4 ? 'IPv4' : 'IPv6', port };
+}
+
+const namedRanges: Record<string, string[]> = {
+  linklocal: ['169.254.0.0/16', 'fe80::/10'],
+  loopback: ['127.0.0.0/8', '::1/128'],
+  uniquelocal: ['10.0.0.0/8', '172.16.0.0/12', '192.168.0.0/16', 'fc00::/7'],
+};
+
+function compileTrust(trustProxy: TrustProxy): TrustProxyFunction {
+  if (typeof trustProxy === 'function') return trustProxy;
+  if (trustProxy === true) return () => true;
+  if (trustProxy === false) return () => false;
+  if (typeof trustProxy === 'number') return (_address, hop) => hop < trustProxy;
+
+  let blockList = new net.BlockList();
+  let ranges = typeof trustProxy === 'string' ? trustProxy.split(',') : trustProxy;
+
+  for (let range of ranges.flatMap((range) => namedRanges[range.trim()] ?? [range.trim()])) {
+    let [address, prefix] = range.split('/');
+    let type: net.IPVersion | null = net.isIPv4(address)
+      ? 'ipv4'
+      : net.isIPv6(address)
+        ? 'ipv6'
+        : null;
+    if (type == null) {
+      throw new TypeError(`Invalid trustProxy address: ${range}`);
+    }
+
+    if (prefix === undefined) {
+      blockList.addAddress(address, type);
+    } else {
+      blockList.addSubnet(address, parseInt(prefix, 10), type);
+    }
+  }
+
+  return (address) => {
+    // Dual-stack sockets report IPv4 clients as IPv4-mapped IPv6 addresses like ::ffff:127.0.0.1
+    let mapped = /^::ffff:(\d+\.\d+\.\d+\.\d+)$/i.exec(address);
+    if (mapped) address = mapped[1];
+    return blockList.check(address, net.isIPv4(address) ? 'ipv4' : 'ipv6');
+  };
+}
@@ -0,0 +1,258 @@
+import * as crypto from 'node:crypto';
+import * as http from 'node:http';
+import type * as stream from 'node:stream';
+
+import { createContextKey, getContext } from './context.ts';
+import type { FetchHandler } from './fetch-handler.ts';
+import {
+  type RequestListenerOptions,
+  createRequestWithSignal,
+  defaultErrorHandler,
+  internalServerError,
+} from './request-listener.ts';
+import { getProxyInfo } from './trust-proxy.ts';
+import { ServerWebSocket, openWebSocket } from './websocket.ts';
+
+export type UpgradeListenerOptions = Pick<
+  RequestListenerOptions,
+  'host' | 'onError' | 'protocol' | 'trustProxy'
+>;
+
+/**
+ * A listener for the [`upgrade` event](https://nodejs.org/api/http.html#event-upgrade_1) of a
+ * Node.js HTTP server.
+ */
+export interface UpgradeListener {
+  (req: http.IncomingMessage, socket: stream.Duplex, head: Buffer): Promise<void>;
+}
+
+interface Upgrade {
+  socket: stream.Duplex;
+  webSocket: ServerWebSocket | null;
+}
+
+const UpgradeKey = createContextKey<Upgrade | null>('upgrade', null);
+
+/**
+ * Wraps a fetch handler in a listener for the `upgrade` event of a Node.js HTTP server, so the
+ * handler can accept WebSocket connections with `upgradeWebSocket()`. Use it with the same handler
+ * as `createRequestListener()` to serve regular requests and WebSockets from one handler.
+ *
+ * Example:
+ *
+ * ```ts
+ * import * as http from 'node:http';
+ * import {
+ *   createRequestListener,
+ *   createUpgradeListener,
+ *   upgradeWebSocket,
+ * } from '@mjackson/node-fetch-server';
+ *
+ * async function handler(request) {
+ *   if (request.headers.get('Upgrade') === 'websocket') {
+ *     let { socket, response } = upgradeWebSocket(request);
+ *     socket.onmessage = (event) => socket.send(event.data);
+ *     return response;
+ *   }
+ *
+ *   return new Response('Hello, world!');
+ * }
+ *
+ * let server = http.createServer(createRequestListener(handler));
+ * server.on('upgrade', createUpgradeListener(handler));
+ *
+ * server.listen(3000);
+ * ```
+ *
+ * If the handler doesn't upgrade the request, the response it returns is sent to the client and
+ * the connection is closed.
+ *
+ * @param handler The fetch handler to use for processing upgrade requests.
+ * @param options Upgrade listener options.
+ * @returns A Node.js `upgrade` event listener.
+ */
+export function createUpgradeListener(
+  handler: FetchHandler,
+  options?: UpgradeListenerOptions,
+): UpgradeListener {
+  let onError = options?.onError ?? defaultErrorHandler;
+
+  return async (req, socket, head) => {
+    let controller = new AbortController();
+    socket.on('close', () => {
+      controller.abort();
+    });
+    // A socket error is followed by 'close', which aborts the request
+    socket.on('error', () => {});
+
+    let request = createRequestWithSignal(req, controller.signal, options);
+    let { client } = getProxyInfo(req, options?.trustProxy);
+
+    let upgrade: Upgrade = { socket, webSocket: null };
+    getContext(request).set(UpgradeKey, upgrade);
+
+    let response: Response;
+    try {
+      response = await handler(request, client);
+    } catch (error) {
+      try {
+        response = (await onError(error)) ?? internalServerError();
+      } catch (error) {
+        console.error(`There was an error in the error handler: ${error}`);
+        response = internalServerError();
+      }
+    }
+
+    if (socket.destroyed) return;
+
+    if (upgrade.webSocket != null && response.ok) {
+      socket.write(serializeHead(101, 'Switching Protocols', response.headers));
+      openWebSocket(upgrade.webSocket, head);
+    } else {
+      let body = new Uint8Array(await response.arrayBuffer());
+      let headers = new Headers(response.headers);
+      headers.set('Connection', 'close');
+      headers.set('Content-Length', String(body.byteLength));
+      socket.end(
+        Buffer.concat([serializeHead(response.status, response.statusText, headers), body]),
+      );
+    }
+  };
+}
+
+export interface UpgradeWebSocketOptions {
+  /**
+   * The maximum size of a message from the client in bytes. The connection is closed with status
+   * `1009` when the client sends a larger message. Default is 100 MiB.
+   */
+  maxMessageSize?: number;
+  /**
+   * The subprotocol to use for the connection. Must be one of the protocols the client asked for in
+   * the `Sec-WebSocket-Protocol` header.
+   */
+  protocol?: string;
+}
+
+export interface UpgradeWebSocketResult {
+  /**
+   * The WebSocket. It is opened after `response` is returned from the handler.
+   */
+  socket: ServerWebSocket;
+  /**
+   * The response to return from the handler to complete the upgrade.
+   */
+  response: Response;
+}
+
+/**
+ * Upgrades a request to a [WebSocket](https://developer.mozilla.org/en-US/docs/Web/API/WebSockets_API)
+ * connection. The request must come from a listener that was created with
+ * `createUpgradeListener()`.
+ *
+ * Return the `response` from the handler to complete the upgrade. The `socket` is opened after
+ * that, so add event listeners to it before returning the response. Headers added to the response,
+ * e.g. by middleware, are sent with the `101 Switching Protocols` response.
+ *
+ * Example:
+ *
+ * ```ts
+ * let { socket, response } = upgradeWebSocket(request, { protocol: 'chat' });
+ *
+ * socket.addEventListener('message', (event) => {
+ *   socket.send(`You said: ${event.data}`);
+ * });
+ *
+ * return response;
+ * ```
+ *
+ * @param request The upgrade request.
+ * @param options WebSocket options.
+ * @returns The WebSocket and the response that completes the upgrade.
+ */
+export function upgradeWebSocket(
+  request: Request,
+  options?: UpgradeWebSocketOptions,
+): UpgradeWebSocketResult {
+  let upgrade = getContext(request).get(UpgradeKey);
+  if (upgrade == null) {
+    throw new TypeError(
+      'upgradeWebSocket() must be called with a request from createUpgradeListener()',
+    );
+  }
+  if (upgrade.webSocket != null) {
+    throw new TypeError('The request has already been upgraded');
+  }
+
+  let headers = request.headers;
+  if (request.method !== 'GET') {
+    throw new TypeError('WebSocket upgrade requests must use the GET method');
+  }
+  if (!hasToken(headers.get('Upgrade'), 'websocket')) {
+    throw new TypeError('The Upgrade header must contain "websocket"');
+  }
+  if (!hasToken(headers.get('Connection'), 'upgrade')) {
+    throw new TypeError('The Connection header must contain "upgrade"');
+  }
+  if (headers.get('Sec-WebSocket-Version') !== '13') {
+    throw new TypeError('The Sec-WebSocket-Version header must be "13"');
+  }
+
+  let key = headers.get('Sec-WebSocket-Key')?.trim();
+  if (key == null || Buffer.from(key, 'base64').byteLength !== 16) {
+    throw new TypeError('The Sec-WebSocket-Key header is missing or invalid');
+  }
+
+  let protocol = options?.protocol;
+  let requestedProtocols = (headers.get('Sec-WebSocket-Protocol') ?? '')
+    .split(',')
+    .map((item) => item.trim());
+  if (protocol !== undefined && !requestedProtocols.includes(protocol)) {
+    throw new TypeError(`The client did not ask for the "${protocol}" protocol`);
+  }
+
+  let url = new URL(request.url);
+  url.protocol = url.protocol === 'https:' ? 'wss:' : 'ws:';
+
+  let socket = new ServerWebSocket(upgrade.socket, {
+    maxMessageSize: options?.maxMessageSize,
+    protocol,
+    url: url.href,
+  });
+  upgrade.webSocket = socket;
+
+  let response = new Response(null, {
+    headers: {
+      Upgrade: 'websocket',
+      Connection: 'Upgrade',
+      'Sec-WebSocket-Accept': createAcceptValue(key),
+    },
+  });
+  if (protocol !== undefined) response.headers.set('Sec-WebSocket-Protocol', protocol);
+
+  return { socket, response };
+}
+
+const acceptGuid = '258EAFA5-E914-47DA-95CA-C5AB0DC85B11';
+
+// See https://datatracker.ietf.org/doc/html/rfc6455#section-4.2.2
+function createAcceptValue(key: string): string {
+  return crypto
+    .createHash('sha1')
+    .update(key + acceptGuid)
+    .digest('base64');
+}
+
+function hasToken(value: string | null, token: string): boolean {
+  if (value == null) return false;
+  return value.split(',').some((item) => item.trim().toLowerCase() === token.toLowerCase());
+}
+
+function serializeHead(status: number, statusText: string, headers: Headers): Buffer {
+  let lines = [`HTTP/1.1 ${status} ${statusText || http.STATUS_CODES[status] || ''}`];
+  for (let [name, value] of headers) {
+    if (name === 'content-length' && status === 101) continue;
+    lines.push(`${name}: ${value}`);
+  }
+
+  return Buffer.from(lines.join('\r\n') + '\r\n\r\n');
+}
@@ -0,0 +1,106 @@
+import * as assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+
+import * as crypto from 'node:crypto';
+
+import { FrameParser, Opcode, WebSocketProtocolError } from './websocket-frame.ts';
+
+function maskedFrame(opcode: number, payload: Uint8Array, fin = true): Buffer {
+  let length = payload.byteLength;
+  let header =
+    length < 126
+      ? Buffer.from([0, 0x80 | length])
+      : length < 0x10000
+        ? Buffer.from([0, 0x80 | 126, 0, 0])
+        : Buffer.from([0, 0x80 | 127, 0, 0, 0, 0, 0, 0, 0, 0]);
+  header[0] = (fin ? 0x80 : 0) | opcode;
+  if (length >= 0x10000) header.writeBigUInt64BE(BigInt(length), 2);
+  else if (length >= 126) header.writeUInt16BE(length, 2);
+
+  let mask = crypto.randomBytes(4);
+  let masked = Buffer.from(payload.map((byte, index) => byte ^ mask[index % 4]));
+
+  return Buffer.concat([header, mask, masked]);
+}
+
+function split(data: Buffer, size: number): Buffer[] {
+  let chunks: Buffer[] = [];
+  for (let i = 0; i < data.length; i += size) {
+    chunks.push(data.subarray(i, i + size));
+  }
+  return chunks;
+}
+
+describe('FrameParser', () => {
+  let sizes = [0, 5, 125, 126, 0xffff, 0x10000];
+
+  sizes.forEach((size) => {
+    it(`parses a frame with a ${size} byte payload one byte at a time`, () => {
+      let payload = crypto.randomBytes(size);
+      let parser = new FrameParser(1024 * 1024);
+
+      let frames = split(maskedFrame(Opcode.Binary, payload), size > 1000 ? 1000 : 1).flatMap(
+        (chunk) => parser.push(chunk),
+      );
+
+      assert.equal(frames.length, 1);
+      assert.equal(frames[0].fin, true);
+      assert.equal(frames[0].opcode, Opcode.Binary);
+      assert.deepEqual(Buffer.from(frames[0].payload), payload);
+    });
+  });
+
+  it('parses a multi-megabyte frame that arrives in small chunks', () => {
+    let payload = crypto.randomBytes(16 * 1024 * 1024);
+    let parser = new FrameParser(100 * 1024 * 1024);
+
+    let frames = split(maskedFrame(Opcode.Binary, payload), 16 * 1024).flatMap((chunk) =>
+      parser.push(chunk),
+    );
+
+    assert.equal(frames.length, 1);
+    assert.ok(Buffer.from(frames[0].payload).equals(payload));
+  });
+
+  it('parses several frames in one chunk', () => {
+    let parser = new FrameParser(1024);
+    let frames = parser.push(
+      Buffer.concat([
+        maskedFrame(Opcode.Text, Buffer.from('Hello, '), false),
+        maskedFrame(Opcode.Ping, Buffer.from('ping')),
+        maskedFrame(Opcode.Continuation, Buffer.from('world!')),
+      ]),
+    );
+
+    assert.deepEqual(
+      frames.map((frame) => [frame.fin, frame.opcode, Buffer.from(frame.payload).toString()]),
+      [
+        [false, Opcode.Text, 'Hello, '],
+        [true, Opcode.Ping, 'ping'],
+        [true, Opcode.Continuation, 'world!'],
+      ],
+    );
+  });
+
+  it('does not change the chunks it is given', () => {
+    let frame = maskedFrame(Opcode.Text, Buffer.from('Hello, world!'));
+    let copy = Buffer.from(frame);
+    new FrameParser(1024).push(frame);
+    assert.deepEqual(frame, copy);
+  });
+
+  it('throws with 1009 when a frame is larger than the maximum payload size', () => {
+    let parser = new FrameParser(1024);
+    // Only the header of the frame is needed to know it's too large
+    let header = maskedFrame(Opcode.Binary, Buffer.alloc(2048)).subarray(0, 4);
+    assert.throws(() => parser.push(header), { name: 'WebSocketProtocolError', code: 1009 });
+  });
+
+  it('throws with 1002 when a frame is not masked', () => {
+    let parser = new FrameParser(1024);
+    assert.throws(
+      () => parser.push(Buffer.from([0x81, 0x02, 0x68, 0x69])),
+      (error) => error instanceof WebSocketProtocolError && error.code === 1002,
+    );
+  });
+});
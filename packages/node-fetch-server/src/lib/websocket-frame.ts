@@ -0,0 +1,219 @@
+// WebSocket framing, see https://datatracker.ietf.org/doc/html/rfc6455#section-5
+
+export const Opcode = {
+  Continuation: 0x0,
+  Text: 0x1,
+  Binary: 0x2,
+  Close: 0x8,
+  Ping: 0x9,
+  Pong: 0xa,
+} as const;
+
+export interface Frame {
+  fin: boolean;
+  opcode: number;
+  payload: Uint8Array;
+}
+
+/**
+ * An error in a frame received from the client. `code` is the status code to close the connection
+ * with.
+ */
+export class WebSocketProtocolError extends Error {
+  code: number;
+
+  constructor(message: string, code = 1002) {
+    super(message);
+    this.name = 'WebSocketProtocolError';
+    this.code = code;
+  }
+}
+
+/**
+ * Encodes a frame sent by the server. Server frames are never masked.
+ */
+export function encodeFrame(opcode: number, payload: Uint8Array, fin = true): Uint8Array {
+  let length = payload.byteLength;
+  let headerSize = length < 126 ? 2 : length < 0x10000 ? 4 : 10;
+  let frame = Buffer.allocUnsafe(headerSize + length);
+
+  frame[0] = (fin ? 0x80 : 0) | opcode;
+  if (length < 126) {
+    frame[1] = length;
+  } else if (length < 0x10000) {
+    frame[1] = 126;
+    frame.writeUInt16BE(length, 2);
+  } else {
+    frame[1] = 127;
+    frame.writeBigUInt64BE(BigInt(length), 2);
+  }
+  frame.set(payload, headerSize);
+
+  return frame;
+}
+
+interface FrameHeader {
+  fin: boolean;
+  opcode: number;
+  mask: Buffer;
+  length: number;
+}
+
+/**
+ * Parses the frames the client sends, which may be split across or share chunks of data from the
+ * socket in any way.
+ */
+export class FrameParser {
+  // Chunks are only joined once a whole frame has arrived, so a large frame that arrives in many
+  // chunks isn't copied again for every chunk
+  #chunks: Buffer[] = [];
+  #bufferedSize = 0;
+  #header: FrameHeader | null = null;
+  #maxPayloadSize: number;
+
+  constructor(maxPayloadSize: number) {
+    this.#maxPayloadSize = maxPayloadSize;
+  }
+
+  /**
+   * Adds a chunk of data from the socket and returns the frames that are now complete.
+   *
+   * @param chunk The data from the socket.
+   * @returns The complete frames.
+   */
+  push(chunk: Uint8Array): Frame[] {
+    if (chunk.byteLength > 0) {
+      this.#chunks.push(Buffer.from(chunk.buffer, chunk.byteOffset, chunk.byteLength));
+      this.#bufferedSize += chunk.byteLength;
+    }
+
+    let frames: Frame[] = [];
+    let frame: Frame | null;
+    while ((frame = this.#parseFrame()) != null) {
+      frames.push(frame);
+    }
+
+    return frames;
+  }
+
+  #parseFrame(): Frame | null {
+    if (this.#header == null) {
+      this.#header = this.#parseHeader();
+      if (this.#header == null) return null;
+    }
+
+    let { fin, opcode, mask, length } = this.#header;
+    if (this.#bufferedSize < length) return null;
+
+    this.#header = null;
+    let payload = this.#read(length);
+    unmask(payload, mask);
+
+    return { fin, opcode, payload };
+  }
+
+  #parseHeader(): FrameHeader | null {
+    if (this.#bufferedSize < 2) return null;
+
+    let buffer = this.#peek(Math.min(this.#bufferedSize, 14));
+    let fin = (buffer[0] & 0x80) !== 0;
+    let opcode = buffer[0] & 0x0f;
+    let masked = (buffer[1] & 0x80) !== 0;
+    let length = buffer[1] & 0x7f;
+
+    if ((buffer[0] & 0x70) !== 0) {
+      throw new WebSocketProtocolError('Reserved bits must not be set');
+    }
+    if (!isKnownOpcode(opcode)) {
+      throw new WebSocketProtocolError(`Unknown opcode ${opcode}`);
+    }
+    if (!masked) {
+      throw new WebSocketProtocolError('Client frames must be masked');
+    }
+    if (opcode >= Opcode.Close && (!fin || length > 125)) {
+      throw new WebSocketProtocolError(
+        'Control frames must not be fragmented or longer than 125 bytes',
+      );
+    }
+
+    let offset = 2;
+    if (length === 126) {
+      if (buffer.length < offset + 2) return null;
+      length = buffer.readUInt16BE(offset);
+      offset += 2;
+    } else if (length === 127) {
+      if (buffer.length < offset + 8) return null;
+      let bigLength = buffer.readBigUInt64BE(offset);
+      if (bigLength > BigInt(this.#maxPayloadSize)) {
+        throw new WebSocketProtocolError('Message is too large', 1009);
+      }
+      length = Number(bigLength);
+      offset += 8;
+    }
+
+    if (length > this.#maxPayloadSize) {
+      throw new WebSocketProtocolError('Message is too large', 1009);
+    }
+
+    if (buffer.length < offset + 4) return null;
+
+    let mask = Buffer.from(buffer.subarray(offset, offset + 4));
+    this.#read(offset + 4);
+
+    return { fin, opcode, mask, length };
+  }
+
+  // Returns the first `size` buffered bytes without consuming them
+  #peek(size: number): Buffer {
+    let first = this.#chunks[0];
+    if (first.length >= size) return first.subarray(0, size);
+    return Buffer.concat(this.#chunks, size);
+  }
+
+  // Consumes the first `size` buffered bytes and returns them in a new buffer
+  #read(size: number): Buffer {
+    let result = Buffer.allocUnsafe(size);
+    let offset = 0;
+    let index = 0;
+
+    while (offset < size) {
+      let chunk = this.#chunks[index];
+      let count = Math.min(chunk.length, size - offset);
+      result.set(chunk.subarray(0, count), offset);
+      offset += count;
+
+      if (count === chunk.length) {
+        index++;
+      } else {
+        this.#chunks[index] = chunk.subarray(count);
+      }
+    }
+
+    this.#chunks.splice(0, index);
+    this.#bufferedSize -= size;
+
+    return result;
+  }
+}
+
+// Unmasks the payload in place, 4 bytes at a time where the buffer is aligned for it
+function unmask(payload: Buffer, mask: Buffer): void {
+  let length = payload.length;
+  let words = payload.byteOffset % 4 === 0 ? length >>> 2 : 0;
+
+  if (words > 0) {
+    let view = new Uint32Array(payload.buffer, payload.byteOffset, words);
+    let key = new Uint32Array(new Uint8Array(mask).buffer)[0];
+    for (let i = 0; i < words; ++i) {
+      view[i] ^= key;
+    }
+  }
+
+  for (let i = words * 4; i < length; ++i) {
+    payload[i] ^= mask[i & 3];
+  }
+}
+
+function isKnownOpcode(opcode: number): boolean {
+  return opcode <= Opcode.Binary || (opcode >= Opcode.Close && opcode <= Opcode.Pong);
+}
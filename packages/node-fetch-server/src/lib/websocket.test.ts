@@ -0,0 +1,339 @@
+import * as assert from 'node:assert/strict';
+import { after, before, describe, it } from 'node:test';
+
+import * as crypto from 'node:crypto';
+import * as http from 'node:http';
+import * as net from 'node:net';
+
+import { type FetchHandler } from './fetch-handler.ts';
+import { createRequestListener } from './request-listener.ts';
+import { createUpgradeListener, upgradeWebSocket } from './upgrade-listener.ts';
+import { ServerWebSocket } from './websocket.ts';
+
+describe('upgradeWebSocket', () => {
+  let server: http.Server;
+  let port: number;
+  let sockets: ServerWebSocket[] = [];
+
+  let handler: FetchHandler = async (request) => {
+    let url = new URL(request.url);
+
+    if (url.pathname === '/forbidden') {
+      return new Response('Forbidden', { status: 403 });
+    }
+
+    if (request.headers.get('Upgrade') !== 'websocket') {
+      return new Response('Not a WebSocket request');
+    }
+
+    let protocol = url.searchParams.get('protocol') ?? undefined;
+    let { socket, response } = upgradeWebSocket(request, { protocol, maxMessageSize: 1024 });
+    sockets.push(socket);
+
+    socket.binaryType = 'arraybuffer';
+    socket.addEventListener('message', (event) => {
+      let { data } = event as MessageEvent;
+      if (data === 'close') {
+        socket.close(4000, 'Bye!');
+      } else {
+        socket.send(typeof data === 'string' ? `echo: ${data}` : data);
+      }
+    });
+
+    response.headers.set('X-Custom', 'value');
+
+    return response;
+  };
+
+  before(async () => {
+    server = http.createServer(createRequestListener(handler));
+    server.on('upgrade', createUpgradeListener(handler));
+    await new Promise<void>((resolve) => server.listen(0, resolve));
+    port = (server.address() as net.AddressInfo).port;
+  });
+
+  after(async () => {
+    server.closeAllConnections();
+    await new Promise((resolve) => server.close(resolve));
+  });
+
+  function connect(path = '/', protocols?: string[]): Promise<WebSocket> {
+    let ws = new WebSocket(`ws://localhost:${port}${path}`, protocols);
+    ws.binaryType = 'arraybuffer';
+    return new Promise((resolve, reject) => {
+      ws.onopen = () => resolve(ws);
+      ws.onerror = () => reject(new Error('WebSocket connection failed'));
+    });
+  }
+
+  function nextMessage(ws: WebSocket): Promise<MessageEvent> {
+    return new Promise((resolve) => ws.addEventListener('message', resolve, { once: true }));
+  }
+
+  function nextClose(ws: { addEventListener: WebSocket['addEventListener'] }): Promise<CloseEvent> {
+    return new Promise((resolve) =>
+      ws.addEventListener('close', (event) => resolve(event as CloseEvent), { once: true }),
+    );
+  }
+
+  it('echoes text messages', async () => {
+    let ws = await connect();
+    ws.send('Hello, world!');
+    assert.equal((await nextMessage(ws)).data, 'echo: Hello, world!');
+    ws.close();
+  });
+
+  it('echoes binary messages', async () => {
+    let ws = await connect();
+    ws.send(new Uint8Array([1, 2, 3]));
+    let message = await nextMessage(ws);
+    assert.deepEqual(new Uint8Array(message.data), new Uint8Array([1, 2, 3]));
+    ws.close();
+  });
+
+  it('echoes messages longer than 125 bytes', async () => {
+    let ws = await connect();
+    ws.send('x'.repeat(1000));
+    assert.equal((await nextMessage(ws)).data, `echo: ${'x'.repeat(1000)}`);
+    ws.close();
+  });
+
+  it('keeps messages in order when sending blobs', async () => {
+    let ws = await connect();
+    let socket = sockets[sockets.length - 1];
+    let messages: unknown[] = [];
+    ws.addEventListener('message', (event) => messages.push(event.data));
+
+    socket.send(new Blob(['blob']));
+    socket.send('text');
+    await new Promise((resolve) => setTimeout(resolve, 50));
+
+    assert.equal(messages.length, 2);
+    assert.equal(Buffer.from(messages[0] as ArrayBuffer).toString(), 'blob');
+    assert.equal(messages[1], 'text');
+    ws.close();
+  });
+
+  it('calls the onmessage and onclose handlers', async () => {
+    let ws = await connect();
+    let socket = sockets[sockets.length - 1];
+
+    let message = new Promise<MessageEvent>((resolve) => {
+      socket.onmessage = resolve;
+    });
+    let close = new Promise<CloseEvent>((resolve) => {
+      socket.onclose = resolve;
+    });
+
+    ws.send('Hello');
+    assert.equal((await message).data, 'Hello');
+
+    ws.close(4002);
+    assert.equal((await close).code, 4002);
+  });
+
+  it('negotiates a subprotocol', async () => {
+    let ws = await connect('/?protocol=chat', ['superchat', 'chat']);
+    assert.equal(ws.protocol, 'chat');
+    assert.equal(sockets[sockets.length - 1].protocol, 'chat');
+    ws.close();
+  });
+
+  it('sends headers from the response with the upgrade', async () => {
+    let response = await rawUpgrade('/');
+    assert.match(response, /^HTTP\/1\.1 101 Switching Protocols\r\n/);
+    assert.match(response, /\r\nsec-websocket-accept: /);
+    assert.match(response, /\r\nx-custom: value\r\n/);
+  });
+
+  it('sends the response when the handler does not upgrade the request', async () => {
+    let response = await rawUpgrade('/forbidden');
+    assert.match(response, /^HTTP\/1\.1 403 Forbidden\r\n/);
+    assert.match(response, /\r\nconnection: close\r\n/);
+    assert.match(response, /\r\n\r\nForbidden$/);
+  });
+
+  it('closes the connection when the client closes it', async () => {
+    let ws = await connect();
+    let socket = sockets[sockets.length - 1];
+    let serverClose = nextClose(socket);
+
+    ws.close(4001, 'Goodbye');
+    let event = await serverClose;
+
+    assert.equal(event.code, 4001);
+    assert.equal(event.reason, 'Goodbye');
+    assert.equal(event.wasClean, true);
+    assert.equal(socket.readyState, ServerWebSocket.CLOSED);
+  });
+
+  it('closes the connection when the server closes it', async () => {
+    let ws = await connect();
+    let clientClose = nextClose(ws);
+
+    ws.send('close');
+    let event = await clientClose;
+
+    assert.equal(event.code, 4000);
+    assert.equal(event.reason, 'Bye!');
+    assert.equal(event.wasClean, true);
+  });
+
+  it('closes the connection with 1009 when a message is too large', async () => {
+    let ws = await connect();
+    let clientClose = nextClose(ws);
+
+    ws.send('x'.repeat(2048));
+    assert.equal((await clientClose).code, 1009);
+  });
+
+  it('answers pings and reassembles fragmented messages', async () => {
+    let { socket, frames } = await rawConnect();
+
+    socket.write(maskedFrame(0x9, Buffer.from('ping'), true));
+    socket.write(maskedFrame(0x1, Buffer.from('Hello, '), false));
+    socket.write(maskedFrame(0x0, Buffer.from('world!'), true));
+
+    assert.deepEqual(await frames(2), [
+      { opcode: 0xa, payload: 'ping' },
+      { opcode: 0x1, payload: 'echo: Hello, world!' },
+    ]);
+    socket.destroy();
+  });
+
+  it('closes the connection with 1002 when a frame is not masked', async () => {
+    let { socket, frames } = await rawConnect();
+
+    socket.write(Buffer.from([0x81, 0x02, 0x68, 0x69]));
+
+    let [close] = await frames(1);
+    assert.equal(close.opcode, 0x8);
+    assert.equal(Buffer.from(close.payload, 'latin1').readUInt16BE(0), 1002);
+    socket.destroy();
+  });
+
+  it('closes the connection with 1007 when a text message is not valid UTF-8', async () => {
+    let { socket, frames } = await rawConnect();
+
+    socket.write(maskedFrame(0x1, Buffer.from([0xff, 0xfe]), true));
+
+    let [close] = await frames(1);
+    assert.equal(close.opcode, 0x8);
+    assert.equal(Buffer.from(close.payload, 'latin1').readUInt16BE(0), 1007);
+    socket.destroy();
+  });
+
+  it('throws when the request is not from an upgrade listener', () => {
+    assert.throws(
+      () => upgradeWebSocket(new Request('http://localhost/')),
+      /must be called with a request from createUpgradeListener/,
+    );
+  });
+
+  it('validates close codes and reasons', async () => {
+    await connect();
+    let socket = sockets[sockets.length - 1];
+    assert.throws(() => socket.close(1001), { name: 'InvalidAccessError' });
+    assert.throws(() => socket.close(1000, 'x'.repeat(124)), { name: 'SyntaxError' });
+    socket.close();
+  });
+
+  function rawUpgrade(path: string): Promise<string> {
+    return new Promise((resolve, reject) => {
+      let socket = net.connect(port, 'localhost', () => {
+        socket.write(
+          [
+            `GET ${path} HTTP/1.1`,
+            `Host: localhost:${port}`,
+            'Upgrade: websocket',
+            'Connection: Upgrade',
+            `Sec-WebSocket-Key: ${crypto.randomBytes(16).toString('base64')}`,
+            'Sec-WebSocket-Version: 13',
+            '',
+            '',
+          ].join('\r\n'),
+        );
+      });
+
+      let data = '';
+      socket.on('data', (chunk) => {
+        data += chunk.toString('latin1');
+        if (data.startsWith('HTTP/1.1 101') && data.includes('\r\n\r\n')) {
+          socket.destroy();
+          resolve(data.slice(0, data.indexOf('\r\n\r\n') + 2));
+        }
+      });
+      socket.on('end', () => resolve(data));
+      socket.on('error', reject);
+    });
+  }
+
+  async function rawConnect(): Promise<{
+    socket: net.Socket;
+    frames: (count: number) => Promise<{ opcode: number; payload: string }[]>;
+  }> {
+    let socket = net.connect(port, 'localhost');
+    await new Promise((resolve) => socket.once('connect', resolve));
+
+    socket.write(
+      [
+        'GET / HTTP/1.1',
+        `Host: localhost:${port}`,
+        'Upgrade: websocket',
+        'Connection: Upgrade',
+        `Sec-WebSocket-Key: ${crypto.randomBytes(16).toString('base64')}`,
+        'Sec-WebSocket-Version: 13',
+        '',
+        '',
+      ].join('\r\n'),
+    );
+
+    let buffer = Buffer.alloc(0);
+    let headDone = false;
+    let received: { opcode: number; payload: string }[] = [];
+    let waiting: (() => void) | null = null;
+
+    socket.on('data', (chunk) => {
+      buffer = Buffer.concat([buffer, chunk]);
+      if (!headDone) {
+        let end = buffer.indexOf('\r\n\r\n');
+        if (end === -1) return;
+        headDone = true;
+        buffer = buffer.subarray(end + 4);
+      }
+      // Server frames in these tests are always shorter than 126 bytes
+      while (buffer.length >= 2 && buffer.length >= 2 + buffer[1]) {
+        received.push({
+          opcode: buffer[0] & 0x0f,
+          payload: buffer.subarray(2, 2 + buffer[1]).toString('latin1'),
+        });
+        buffer = buffer.subarray(2 + buffer[1]);
+      }
+      waiting?.();
+    });
+
+    await new Promise((resolve) => setTimeout(resolve, 20));
+
+    return {
+      socket,
+      frames: (count) =>
+        new Promise((resolve) => {
+          let check = () => {
+            if (received.length >= count) resolve(received.splice(0, count));
+          };
+          waiting = check;
+          check();
+        }),
+    };
+  }
+});
+
+function maskedFrame(opcode: number, payload: Buffer, fin: boolean): Buffer {
+  let mask = crypto.randomBytes(4);
+  let masked = Buffer.from(payload.map((byte, index) => byte ^ mask[index % 4]));
+  return Buffer.concat([
+    Buffer.from([(fin ? 0x80 : 0) | opcode, 0x80 | payload.length]),
+    mask,
+    masked,
+  ]);
+}
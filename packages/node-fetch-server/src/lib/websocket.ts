@@ -0,0 +1,428 @@
+import type * as stream from 'node:stream';
+
+import {
+  type Frame,
+  FrameParser,
+  Opcode,
+  WebSocketProtocolError,
+  encodeFrame,
+} from './websocket-frame.ts';
+
+export interface ServerWebSocketOptions {
+  /**
+   * The maximum size of a message from the client in bytes. The connection is closed with status
+   * `1009` when the client sends a larger message. Default is 100 MiB.
+   */
+  maxMessageSize?: number;
+  /**
+   * The subprotocol that was chosen for the connection.
+   */
+  protocol?: string;
+  /**
+   * The URL of the connection.
+   */
+  url: string;
+}
+
+/**
+ * Completes the opening handshake, after the `101 Switching Protocols` response has been sent.
+ */
+export let openWebSocket: (webSocket: ServerWebSocket, head: Uint8Array) => void;
+
+/**
+ * The server side of a WebSocket connection. It has the same API as the
+ * [`WebSocket`](https://developer.mozilla.org/en-US/docs/Web/API/WebSocket) in browsers, except
+ * that it is created with `upgradeWebSocket()` instead of a constructor.
+ */
+export class ServerWebSocket extends EventTarget {
+  static readonly CONNECTING = 0;
+  static readonly OPEN = 1;
+  static readonly CLOSING = 2;
+  static readonly CLOSED = 3;
+
+  readonly CONNECTING = 0;
+  readonly OPEN = 1;
+  readonly CLOSING = 2;
+  readonly CLOSED = 3;
+
+  /**
+   * The type of `data` in `message` events for binary messages. Default is `'blob'`.
+   *
+   * [MDN `WebSocket.binaryType` Reference](https://developer.mozilla.org/en-US/docs/Web/API/WebSocket/binaryType)
+   */
+  binaryType: BinaryType = 'blob';
+
+  onclose: ((this: ServerWebSocket, event: CloseEvent) => any) | null = null;
+  onerror: ((this: ServerWebSocket, event: Event) => any) | null = null;
+  onmessage: ((this: ServerWebSocket, event: MessageEvent) => any) | null = null;
+  onopen: ((this: ServerWebSocket, event: Event) => any) | null = null;
+
+  #socket: stream.Duplex;
+  #parser: FrameParser;
+  #maxMessageSize: number;
+  #protocol: string;
+  #url: string;
+  #readyState: number = ServerWebSocket.CONNECTING;
+
+  #message: { opcode: number; chunks: Uint8Array[]; size: number } | null = null;
+  #sendQueue = Promise.resolve();
+  #pendingSends = 0;
+
+  #closeSent = false;
+  #closeReceived = false;
+  #failed = false;
+  #closeCode = 1006;
+  #closeReason = '';
+  #closeTimer?: NodeJS.Timeout;
+  #pendingClose?: { code?: number; reason?: string };
+
+  /**
+   * Use `upgradeWebSocket()` to create a WebSocket for a request.
+   *
+   * @param socket The socket of the connection.
+   * @param options WebSocket options.
+   */
+  constructor(socket: stream.Duplex, options: ServerWebSocketOptions) {
+    super();
+    this.#socket = socket;
+    this.#maxMessageSize = options.maxMessageSize ?? 100 * 1024 * 1024;
+    this.#parser = new FrameParser(this.#maxMessageSize);
+    this.#protocol = options.protocol ?? '';
+    this.#url = options.url;
+
+    socket.on('close', () => this.#handleSocketClose());
+    socket.on('error', () => {
+      // The socket will be closed after this, which fires the close event
+      this.#dispatch(new Event('error'));
+    });
+  }
+
+  static {
+    openWebSocket = (webSocket, head) => webSocket.#open(head);
+  }
+
+  /**
+   * The number of bytes of data that have been queued using `send()` but not yet written to the
+   * network.
+   */
+  get bufferedAmount(): number {
+    return this.#socket.writableLength;
+  }
+
+  /**
+   * The extensions that were chosen for the connection. Always empty, since no extensions are
+   * supported.
+   */
+  get extensions(): string {
+    return '';
+  }
+
+  /**
+   * The subprotocol that was chosen for the connection, or an empty string if there is none.
+   */
+  get protocol(): string {
+    return this.#protocol;
+  }
+
+  /**
+   * The state of the connection, one of `CONNECTING`, `OPEN`, `CLOSING` or `CLOSED`.
+   */
+  get readyState(): number {
+    return this.#readyState;
+  }
+
+  /**
+   * The URL of the connection.
+   */
+  get url(): string {
+    return this.#url;
+  }
+
+  /**
+   * Sends a message to the client. Strings are sent as text messages, and everything else as
+   * binary messages.
+   *
+   * [MDN `WebSocket.send()` Reference](https://developer.mozilla.org/en-US/docs/Web/API/WebSocket/send)
+   *
+   * @param data The message to send.
+   */
+  send(data: string | ArrayBufferLike | Blob | ArrayBufferView): void {
+    if (this.#readyState === ServerWebSocket.CONNECTING) {
+      throw new DOMException('The WebSocket is not open yet', 'InvalidStateError');
+    }
+    if (this.#readyState !== ServerWebSocket.OPEN) return;
+
+    let opcode = typeof data === 'string' ? Opcode.Text : Opcode.Binary;
+
+    // Blobs are read asynchronously, so messages sent after one have to wait for it to keep them
+    // in order
+    if (data instanceof Blob || this.#pendingSends > 0) {
+      this.#pendingSends++;
+      this.#sendQueue = this.#sendQueue.then(async () => {
+        let payload =
+          data instanceof Blob ? new Uint8Array(await data.arrayBuffer()) : toBytes(data);
+        this.#pendingSends--;
+        if (this.#readyState === ServerWebSocket.OPEN) this.#write(opcode, payload);
+      });
+    } else {
+      this.#write(opcode, toBytes(data));
+    }
+  }
+
+  /**
+   * Starts closing the connection.
+   *
+   * [MDN `WebSocket.close()` Reference](https://developer.mozilla.org/en-US/docs/Web/API/WebSocket/close)
+   *
+   * @param code The status code, either `1000` or a code in the range `3000`-`4999`.
+   * @param reason The reason the connection is closing. Must be no longer than 123 bytes.
+   */
+  close(code?: number, reason?: string): void {
+    if (code !== undefined && code !== 1000 && (code < 3000 || code > 4999)) {
+      throw new DOMException(`Invalid close code: ${code}`, 'InvalidAccessError');
+    }
+    if (reason !== undefined && Buffer.byteLength(reason) > 123) {
+      throw new DOMException('The close reason must not be longer than 123 bytes', 'SyntaxError');
+    }
+
+    if (this.#readyState === ServerWebSocket.CONNECTING) {
+      // Close as soon as the connection is open
+      this.#pendingClose = { code, reason };
+      this.#readyState = ServerWebSocket.CLOSING;
+    } else if (this.#readyState === ServerWebSocket.OPEN) {
+      this.#readyState = ServerWebSocket.CLOSING;
+      this.#sendClose(code, reason);
+    }
+  }
+
+  #open(head: Uint8Array): void {
+    this.#socket.on('data', (chunk: Buffer) => this.#receive(chunk));
+    this.#socket.on('end', () => this.#socket.end());
+
+    if (this.#pendingClose) {
+      this.#sendClose(this.#pendingClose.code, this.#pendingClose.reason);
+    } else {
+      this.#readyState = ServerWebSocket.OPEN;
+      this.#dispatch(new Event('open'));
+    }
+
+    if (head.length > 0) this.#receive(head);
+  }
+
+  #receive(chunk: Uint8Array): void {
+    if (this.#closeReceived) return;
+
+    let frames: Frame[];
+    try {
+      frames = this.#parser.push(chunk);
+    } catch (error) {
+      if (error instanceof WebSocketProtocolError) {
+        this.#fail(error.code, error.message);
+        return;
+      }
+      throw error;
+    }
+
+    for (let frame of frames) {
+      try {
+        this.#handleFrame(frame);
+      } catch (error) {
+        if (error instanceof WebSocketProtocolError) {
+          this.#fail(error.code, error.message);
+          return;
+        }
+        throw error;
+      }
+
+      if (this.#closeReceived) return;
+    }
+  }
+
+  #handleFrame(frame: Frame): void {
+    switch (frame.opcode) {
+      case Opcode.Ping:
+        if (!this.#closeSent) this.#write(Opcode.Pong, frame.payload);
+        return;
+      case Opcode.Pong:
+        return;
+      case Opcode.Close:
+        this.#handleClose(frame.payload);
+        return;
+    }
+
+    if (frame.opcode === Opcode.Continuation) {
+      if (this.#message == null) {
+        throw new WebSocketProtocolError('Unexpected continuation frame');
+      }
+    } else {
+      if (this.#message != null) {
+        throw new WebSocketProtocolError('Expected a continuation frame');
+      }
+      this.#message = { opcode: frame.opcode, chunks: [], size: 0 };
+    }
+
+    let message = this.#message;
+    message.chunks.push(frame.payload);
+    message.size += frame.payload.byteLength;
+    if (message.size > this.#maxMessageSize) {
+      throw new WebSocketProtocolError('Message is too large', 1009);
+    }
+
+    if (!frame.fin) return;
+
+    this.#message = null;
+    let payload = message.chunks.length === 1 ? message.chunks[0] : Buffer.concat(message.chunks);
+
+    // Ignore messages that arrive after we started closing the connection
+    if (this.#readyState !== ServerWebSocket.OPEN) return;
+
+    let data: string | ArrayBuffer | Blob;
+    if (message.opcode === Opcode.Text) {
+      data = decodeText(payload);
+    } else if (this.binaryType === 'arraybuffer') {
+      data = payload.buffer.slice(
+        payload.byteOffset,
+        payload.byteOffset + payload.byteLength,
+      ) as ArrayBuffer;
+    } else {
+      data = new Blob([payload]);
+    }
+
+    this.#dispatch(new MessageEvent('message', { data }));
+  }
+
+  #handleClose(payload: Uint8Array): void {
+    let code = 1005;
+    let reason = '';
+
+    if (payload.byteLength === 1) {
+      throw new WebSocketProtocolError('Invalid close frame');
+    }
+    if (payload.byteLength >= 2) {
+      code = (payload[0] << 8) | payload[1];
+      if (!isValidReceivedCloseCode(code)) {
+        throw new WebSocketProtocolError(`Invalid close code: ${code}`);
+      }
+      reason = decodeText(payload.subarray(2));
+    }
+
+    this.#closeReceived = true;
+    this.#closeCode = code;
+    this.#closeReason = reason;
+    this.#readyState = ServerWebSocket.CLOSING;
+
+    // Echo the status code back to the client, then close the connection
+    if (!this.#closeSent) this.#sendClose(code === 1005 ? undefined : code);
+    this.#socket.end();
+  }
+
+  #sendClose(code?: number, reason?: string): void {
+    let payload = new Uint8Array(0);
+    if (code !== undefined) {
+      let reasonBytes = Buffer.from(reason ?? '');
+      payload = Buffer.alloc(2 + reasonBytes.length);
+      (payload as Buffer).writeUInt16BE(code, 0);
+      payload.set(reasonBytes, 2);
+    }
+
+    this.#write(Opcode.Close, payload);
+    this.#closeSent = true;
+
+    // Don't wait forever for the client to finish the closing handshake
+    this.#closeTimer = setTimeout(() => this.#socket.destroy(), 30_000);
+    this.#closeTimer.unref();
+  }
+
+  #fail(code: number, reason: string): void {
+    this.#failed = true;
+    this.#closeReceived = true;
+    this.#closeCode = code;
+    this.#closeReason = reason;
+    this.#readyState = ServerWebSocket.CLOSING;
+
+    this.#dispatch(new Event('error'));
+    if (!this.#closeSent) this.#sendClose(code, reason.slice(0, 123));
+    this.#socket.end();
+  }
+
+  #handleSocketClose(): void {
+    if (this.#readyState === ServerWebSocket.CLOSED) return;
+
+    clearTimeout(this.#closeTimer);
+    let wasClean = this.#closeSent && this.#closeReceived && !this.#failed;
+    this.#readyState = ServerWebSocket.CLOSED;
+
+    this.#dispatch(
+      new CloseEvent('close', {
+        code: this.#closeReceived ? this.#closeCode : 1006,
+        reason: this.#closeReceived ? this.#closeReason : '',
+        wasClean,
+      }),
+    );
+  }
+
+  #write(opcode: number, payload: Uint8Array): void {
+    if (this.#socket.writable) {
+      this.#socket.write(encodeFrame(opcode, payload));
+    }
+  }
+
+  #dispatch(event: Event): void {
+    this.dispatchEvent(event);
+
+    switch (event.type) {
+      case 'open':
+        this.onopen?.call(this, event);
+        break;
+      case 'message':
+        this.onmessage?.call(this, event as MessageEvent);
+        break;
+      case 'error':
+        this.onerror?.call(this, event);
+        break;
+      case 'close':
+        this.onclose?.call(this, event as CloseEvent);
+        break;
+    }
+  }
+}
+
+// The `CloseEvent` global is only available in Node.js 23+
+class CloseEvent extends Event {
+  readonly code: number;
+  readonly reason: string;
+  readonly wasClean: boolean;
+
+  constructor(type: string, init: CloseEventInit) {
+    super(type, init);
+    this.code = init.code ?? 0;
+    this.reason = init.reason ?? '';
+    this.wasClean = init.wasClean ?? false;
+  }
+}
+
+function toBytes(data: ArrayBufferLike | ArrayBufferView | string): Uint8Array {
+  if (typeof data === 'string') return Buffer.from(data);
+  if (ArrayBuffer.isView(data))
+    return new Uint8Array(data.buffer, data.byteOffset, data.byteLength);
+  return new Uint8Array(data);
+}
+
+const textDecoder = new TextDecoder('utf-8', { fatal: true });
+
+function decodeText(payload: Uint8Array): string {
+  try {
+    return textDecoder.decode(payload);
+  } catch {
+    throw new WebSocketProtocolError('Invalid UTF-8 in text message', 1007);
+  }
+}
+
+// See https://datatracker.ietf.org/doc/html/rfc6455#section-7.4
+function isValidReceivedCloseCode(code: number): boolean {
+  return (
+    (code >= 1000 && code <= 1003) ||
+    (code >= 1007 && code <= 1014) ||
+    (code >= 3000 && code <= 4999)
+  );
+}
@@ -1,9 +1,54 @@
-export { type ClientAddress, type ErrorHandler, type FetchHandler } from './lib/fetch-handler.ts';
+export {
+  type ClientAddress,
+  type ContinueHandler,
+  type ErrorHandler,
+  type FetchHandler,
+} from './lib/fetch-handler.ts';
 export {
   type RequestListenerOptions,
   createRequestListener,
+  type ContinueListenerOptions,
+  createContinueListener,
   type RequestOptions,
   createRequest,
   createHeaders,
   sendResponse,
 } from './lib/request-listener.ts';
+export { createFileResponse } from './lib/file-response.ts';
+export {
+  type GracefulShutdownOptions,
+  type GracefulShutdown,
+  createGracefulShutdown,
+} from './lib/graceful-shutdown.ts';
+export { type StaticHandlerOptions, createStaticHandler } from './lib/static-handler.ts';
+export { type ContextKey, createContextKey, RequestContext, getContext } from './lib/context.ts';
+export { type NextFunction, type Middleware, compose } from './lib/middleware.ts';
+export {
+  type CompressionEncoding,
+  type CompressionOptions,
+  compression,
+} from './lib/compression.ts';
+export {
+  type AccessLogEntry,
+  type AccessLogger,
+  type AccessLogFormatter,
+  type AccessLoggerOptions,
+  createAccessLogger,
+  formatCommonLog,
+  formatCombinedLog,
+  formatJsonLog,
+} from './lib/access-log.ts';
+export { type TrustProxy, type TrustProxyFunction } from './lib/trust-proxy.ts';
+export { MaxBodySizeExceededError } from './lib/request-body.ts';
+export {
+  type UpgradeListenerOptions,
+  type UpgradeListener,
+  createUpgradeListener,
+  type UpgradeWebSocketOptions,
+  type UpgradeWebSocketResult,
+  upgradeWebSocket,
+} from './lib/upgrade-listener.ts';
+export { ServerWebSocket } from './lib/websocket.ts';
+export { type ServerSentEvent, type EventStreamOptions, EventStream } from './lib/event-stream.ts';
+export { sendEarlyHints } from './lib/early-hints.ts';
+export { type TrailersFunction, setTrailers } from './lib/trailers.ts';
@@ -0,0 +1,119 @@
+import * as os from 'node:os';
+import * as process from 'node:process';
+
+import { RoutePattern, Router } from '../src/route-pattern.ts';
+
+const benchmarks = [
+  { name: '10 routes', size: 10 },
+  { name: '100 routes', size: 100 },
+  { name: '1,000 routes', size: 1000 },
+  { name: '10,000 routes', size: 10000 },
+];
+
+function createPatterns(size: number): Array<string> {
+  let patterns: Array<string> = [];
+  for (let i = 0; patterns.length < size; ++i) {
+    patterns.push(`resource${i}`, `resource${i}/:id`, `resource${i}/:id/edit`, `resource${i}/*`);
+  }
+  return patterns.slice(0, size);
+}
+
+function createUrls(patterns: Array<string>): Array<URL> {
+  return patterns.map(
+    (pattern) => new URL(pattern.replace(':id', '123').replace('*', 'a/b/c'), 'https://remix.run'),
+  );
+}
+
+interface Matcher {
+  setup(patterns: Array<string>): (url: URL) => unknown;
+  // The largest number of routes to benchmark, for matchers that would take too long with more
+  maxSize?: number;
+}
+
+const router: Matcher = {
+  setup(patterns) {
+    let router = new Router<string>();
+    for (let pattern of patterns) router.add(pattern, pattern);
+    return (url) => router.match(url);
+  },
+};
+
+const linear: Matcher = {
+  maxSize: 1000,
+  setup(patterns) {
+    let routePatterns = patterns.map((pattern) => new RoutePattern(pattern));
+    return (url) => {
+      for (let pattern of routePatterns) {
+        let match = pattern.match(url);
+        if (match) return match;
+      }
+      return null;
+    };
+  },
+};
+
+function runMatcherBenchmarks(matcher: Matcher, times = 20): BenchmarkResults[string] {
+  let results: BenchmarkResults[string] = {};
+
+  for (let benchmark of benchmarks) {
+    if (matcher.maxSize !== undefined && benchmark.size > matcher.maxSize) continue;
+
+    let patterns = createPatterns(benchmark.size);
+    let urls = createUrls(patterns);
+    let match = matcher.setup(patterns);
+
+    let measurements: number[] = [];
+    for (let i = 0; i < times; ++i) {
+      let start = performance.now();
+      for (let url of urls) match(url);
+      // Time per match, in microseconds
+      measurements.push(((performance.now() - start) / urls.length) * 1000);
+    }
+
+    results[benchmark.name] = getMeanAndStdDev(measurements);
+  }
+
+  return results;
+}
+
+function getMeanAndStdDev(measurements: number[]): string {
+  let mean = measurements.reduce((a, b) => a + b, 0) / measurements.length;
+  let variance = measurements.reduce((a, b) => a + (b - mean) ** 2, 0) / measurements.length;
+  let stdDev = Math.sqrt(variance);
+  return mean.toFixed(2) + ' µs ± ' + stdDev.toFixed(2);
+}
+
+interface BenchmarkResults {
+  [matcherName: string]: {
+    [benchmarkName: string]: string;
+  };
+}
+
+function runBenchmarks(matcherName?: string): BenchmarkResults {
+  let results: BenchmarkResults = {};
+
+  if (matcherName === 'router' || matcherName === undefined) {
+    results.router = runMatcherBenchmarks(router);
+  }
+  if (matcherName === 'linear' || matcherName === undefined) {
+    results.linear = runMatcherBenchmarks(linear);
+  }
+
+  return results;
+}
+
+function printResults(results: BenchmarkResults) {
+  console.log(`Platform: ${os.type()} (${os.release()})`);
+  console.log(`CPU: ${os.cpus()[0].model}`);
+  console.log(`Date: ${new Date().toLocaleString()}`);
+  console.log(`Node.js ${process.version}`);
+
+  console.table(results);
+}
+
+try {
+  printResults(runBenchmarks(process.argv[2]));
+} catch (error) {
+  console.error(error);
+  process.exit(1);
+}
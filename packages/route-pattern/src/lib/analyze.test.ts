@@ -0,0 +1,152 @@
+import * as assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+
+import { analyzePatterns } from './analyze.ts';
+import { RoutePattern } from './route-pattern.ts';
+
+describe('analyzePatterns', () => {
+  it('returns an empty analysis when there are no conflicts', () => {
+    assert.deepEqual(analyzePatterns(['users/:id', 'posts/:id', 'users/:id/posts']), {
+      ambiguous: [],
+      shadowed: [],
+      unmatchable: [],
+    });
+  });
+
+  it('accepts strings and RoutePatterns', () => {
+    const pattern = new RoutePattern('users/:name');
+    const analysis = analyzePatterns(['users/:id', pattern]);
+    assert.deepEqual(analysis.ambiguous, [['users/:id', pattern]]);
+  });
+
+  describe('ambiguous', () => {
+    const ambiguousTests = [
+      { patterns: ['users/:id', 'users/:name'], ambiguous: [['users/:id', 'users/:name']] },
+      { patterns: ['files/*path', 'files/*rest'], ambiguous: [['files/*path', 'files/*rest']] },
+      { patterns: ['a/:x/c', 'a/b/:y'], ambiguous: [] },
+      { patterns: ['a/:x/c', 'a/:y/c'], ambiguous: [['a/:x/c', 'a/:y/c']] },
+      { patterns: ['a/:x', 'b/:x'], ambiguous: [] },
+      { patterns: ['users/:id', 'users/new'], ambiguous: [] },
+      { patterns: ['users/:id', 'users/:id/edit'], ambiguous: [] },
+      { patterns: ['files/:name.{jpg,png}', 'files/:name.gif'], ambiguous: [] },
+      { patterns: ['v:major.:minor', 'v:version.x'], ambiguous: [] },
+      { patterns: ['://:a.com/x', '://:b.org/x'], ambiguous: [] },
+      { patterns: ['://:a.com/x', 'x'], ambiguous: [] },
+      { patterns: ['http://example.com/x', 'https://example.com/x'], ambiguous: [] },
+      { patterns: ['://example.com:80/x', '://example.com:443/x'], ambiguous: [] },
+      {
+        patterns: ['users/:id<int>', 'users/:name'],
+        ambiguous: [['users/:id<int>', 'users/:name']],
+      },
+    ];
+
+    for (const { patterns, ambiguous } of ambiguousTests) {
+      it(`reports ${JSON.stringify(ambiguous)} for ${JSON.stringify(patterns)}`, () => {
+        assert.deepEqual(analyzePatterns(patterns).ambiguous, ambiguous);
+      });
+    }
+  });
+
+  describe('shadowed', () => {
+    const shadowedTests = [
+      {
+        patterns: ['users/:id', 'users/new'],
+        shadowed: [{ pattern: 'users/new', by: 'users/:id' }],
+      },
+      { patterns: ['users/new', 'users/:id'], shadowed: [] },
+      {
+        patterns: ['files/*path', 'files/:name/raw'],
+        shadowed: [{ pattern: 'files/:name/raw', by: 'files/*path' }],
+      },
+      {
+        patterns: ['users/:id', 'users/:name'],
+        shadowed: [{ pattern: 'users/:name', by: 'users/:id' }],
+      },
+      {
+        patterns: ['docs(/:page)', 'docs'],
+        shadowed: [{ pattern: 'docs', by: 'docs(/:page)' }],
+      },
+      {
+        patterns: ['images/:name.{jpg,png}', 'images/logo.png'],
+        shadowed: [{ pattern: 'images/logo.png', by: 'images/:name.{jpg,png}' }],
+      },
+      { patterns: ['images/:name.{jpg,png}', 'images/logo.gif'], shadowed: [] },
+      {
+        patterns: ['users/:id', '://example.com/users/:id'],
+        shadowed: [{ pattern: '://example.com/users/:id', by: 'users/:id' }],
+      },
+      { patterns: ['://example.com/users/:id', 'users/:id'], shadowed: [] },
+      // Typed params don't match everything, so they never shadow other patterns
+      { patterns: ['users/:id<int>', 'users/123'], shadowed: [] },
+      {
+        patterns: ['users/:id', 'users/:id<int>'],
+        shadowed: [{ pattern: 'users/:id<int>', by: 'users/:id' }],
+      },
+      // Search params in the earlier pattern must be guaranteed by the later one
+      { patterns: ['search?q', 'search'], shadowed: [] },
+      {
+        patterns: ['search?q', 'search?q=:query&page=:page'],
+        shadowed: [{ pattern: 'search?q=:query&page=:page', by: 'search?q' }],
+      },
+      { patterns: ['search?sort=asc', 'search?sort=:order'], shadowed: [] },
+      {
+        patterns: ['search?(sort=:order)', 'search'],
+        shadowed: [{ pattern: 'search', by: 'search?(sort=:order)' }],
+      },
+      { patterns: ['search?(sort=asc)', 'search'], shadowed: [] },
+      {
+        patterns: ['://example.com(/:lang)', '://example.com/:page'],
+        shadowed: [{ pattern: '://example.com/:page', by: '://example.com(/:lang)' }],
+      },
+      { patterns: ['://example.com/:page', '://example.com(/:lang)'], shadowed: [] },
+      {
+        patterns: ['(https://)example.com/x', 'http://example.com/x'],
+        shadowed: [{ pattern: 'http://example.com/x', by: '(https://)example.com/x' }],
+      },
+    ];
+
+    for (const { patterns, shadowed } of shadowedTests) {
+      it(`reports ${JSON.stringify(shadowed)} for ${JSON.stringify(patterns)}`, () => {
+        assert.deepEqual(analyzePatterns(patterns).shadowed, shadowed);
+      });
+    }
+
+    it('ranks patterns like a Router with order: "router"', () => {
+      const patterns = ['users/:id', 'users/new', 'users/*rest', 'users/:id/edit'];
+      assert.deepEqual(analyzePatterns(patterns, { order: 'router' }).shadowed, []);
+
+      const duplicates = ['users/:name', 'files/*', 'users/:id'];
+      assert.deepEqual(analyzePatterns(duplicates, { order: 'router' }).shadowed, [
+        { pattern: 'users/:id', by: 'users/:name' },
+      ]);
+    });
+  });
+
+  describe('unmatchable', () => {
+    const unmatchableTests = [
+      { pattern: '://Example.com/users', unmatchable: true },
+      { pattern: '://example.com/users', unmatchable: false },
+      { pattern: 'HTTPS://example.com', unmatchable: true },
+      { pattern: 'hello world', unmatchable: true },
+      { pattern: 'search#results', unmatchable: true },
+      { pattern: 'users/:id', unmatchable: false },
+      { pattern: 'hello(-world)', unmatchable: false },
+      { pattern: '{Hello,hello}', unmatchable: false },
+    ];
+
+    for (const { pattern, unmatchable } of unmatchableTests) {
+      it(`${unmatchable ? 'reports' : 'does not report'} ${JSON.stringify(pattern)}`, () => {
+        assert.deepEqual(analyzePatterns([pattern]).unmatchable, unmatchable ? [pattern] : []);
+      });
+    }
+
+    it('leaves unmatchable patterns out of the other reports', () => {
+      const analysis = analyzePatterns(['*', 'HELLO world', 'hello world']);
+      assert.deepEqual(analysis, {
+        ambiguous: [],
+        shadowed: [],
+        unmatchable: ['HELLO world', 'hello world'],
+      });
+    });
+  });
+});
@@ -0,0 +1,340 @@
+import { ownsLeadingSlash, parse, type Ast, type Part, type SearchParam } from './parse.ts';
+import type { RoutePattern } from './route-pattern.ts';
+import { compareSpecificity, specificity, type Specificity } from './specificity.ts';
+
+export interface AnalyzeOptions {
+  /**
+   * How patterns are ordered when deciding if one shadows another.
+   *
+   * - `first-match` (default): the first pattern in the list that matches a URL wins
+   * - `router`: patterns are ranked by specificity, like a `Router` does
+   */
+  order?: 'first-match' | 'router';
+}
+
+export interface Analysis<P> {
+  /**
+   * Pairs of patterns that match some of the same URLs and are equally specific, so a `Router`
+   * only picks between them based on the order they were added.
+   */
+  ambiguous: Array<[P, P]>;
+  /**
+   * Patterns that never match because every URL they match is matched by an earlier pattern.
+   */
+  shadowed: Array<{ pattern: P; by: P }>;
+  /**
+   * Patterns that can never match any URL.
+   */
+  unmatchable: Array<P>;
+}
+
+/**
+ * Finds conflicts between route patterns: ambiguous pairs, shadowed patterns and patterns that can
+ * never match. Param types and some search params can't be analyzed exactly, so the analysis errs
+ * on the side of reporting ambiguity and only reports shadowing when it is certain.
+ * @param patterns The patterns to analyze
+ * @param options Options for the analysis
+ * @returns The conflicts that were found
+ */
+export function analyzePatterns<P extends string | RoutePattern>(
+  patterns: Array<P>,
+  options?: AnalyzeOptions,
+): Analysis<P> {
+  const result: Analysis<P> = { ambiguous: [], shadowed: [], unmatchable: [] };
+  const entries: Array<{ pattern: P; ast: Ast; index: number; specificity: Specificity }> = [];
+
+  patterns.forEach((pattern, index) => {
+    const ast = parse(typeof pattern === 'string' ? pattern : pattern.source);
+    if (isUnmatchable(ast)) {
+      result.unmatchable.push(pattern);
+    } else {
+      entries.push({ pattern, ast, index, specificity: specificity(ast) });
+    }
+  });
+
+  for (let i = 0; i < entries.length; i++) {
+    for (let j = i + 1; j < entries.length; j++) {
+      const a = entries[i];
+      const b = entries[j];
+      if (compareSpecificity(a.specificity, b.specificity) === 0 && overlaps(a.ast, b.ast)) {
+        result.ambiguous.push([a.pattern, b.pattern]);
+      }
+    }
+  }
+
+  if (options?.order === 'router') {
+    entries.sort((a, b) => compareSpecificity(a.specificity, b.specificity) || a.index - b.index);
+  }
+
+  for (let j = 1; j < entries.length; j++) {
+    for (let i = 0; i < j; i++) {
+      if (contains(entries[i].ast, entries[j].ast)) {
+        result.shadowed.push({ pattern: entries[j].pattern, by: entries[i].pattern });
+        break;
+      }
+    }
+  }
+
+  return result;
+}
+
+type PartName = 'protocol' | 'hostname' | 'port' | 'pathname';
+
+const partNames: Array<PartName> = ['protocol', 'hostname', 'port', 'pathname'];
+
+// Parts that are missing from a pattern match anything, except for the pathname
+const anything: Part = [{ type: 'glob' }];
+const nothing: Part = [];
+
+function getPart(ast: Ast, name: PartName): Part {
+  const part = ast[name];
+  // An optional protocol like `(https://)` matches any protocol
+  if (name === 'protocol' && part?.length === 1 && part[0].type === 'optional') return anything;
+  return part ?? (name === 'pathname' ? nothing : anything);
+}
+
+function isUnmatchable(ast: Ast): boolean {
+  return partNames.some((name) => {
+    const part = getPart(ast, name);
+    return isEmpty(buildNfa(part, name, 'loose'), alphabet([part], name));
+  });
+}
+
+function overlaps(a: Ast, b: Ast): boolean {
+  return partNames.every((name) => {
+    const partA = getPart(a, name);
+    const partB = getPart(b, name);
+    return intersects(
+      buildNfa(partA, name, 'loose'),
+      buildNfa(partB, name, 'loose'),
+      alphabet([partA, partB], name),
+    );
+  });
+}
+
+// Whether every URL that `b` matches is also matched by `a`. Typed params in `a` are treated as
+// matching nothing, so this never reports containment that isn't there.
+function contains(a: Ast, b: Ast): boolean {
+  const partsContained = partNames.every((name) => {
+    const partA = getPart(a, name);
+    const partB = getPart(b, name);
+    return isSubset(
+      buildNfa(partB, name, 'loose'),
+      buildNfa(partA, name, 'strict'),
+      alphabet([partA, partB], name),
+    );
+  });
+
+  return partsContained && (a.search ?? []).every((param) => impliesSearchParam(b, param));
+}
+
+// Whether every URL that `b` matches also satisfies the search param `param`
+function impliesSearchParam(b: Ast, param: SearchParam): boolean {
+  const { value } = param;
+
+  // Params without a type and globs only restrict anything when they are required
+  if (param.optional && (!value || value.type === 'glob' || !isConstrained(value))) return true;
+
+  return (b.search ?? []).some((other) => {
+    if (other.optional || other.key !== param.key) return false;
+    if (!value || value.type === 'glob') return true;
+    if (value.type === 'text')
+      return other.value?.type === 'text' && other.value.value === value.value;
+    if (value.typeName === undefined) return true;
+    return other.value?.type === 'param' && other.value.typeName === value.typeName;
+  });
+}
+
+function isConstrained(value: NonNullable<SearchParam['value']>): boolean {
+  return value.type === 'text' || (value.type === 'param' && value.typeName !== undefined);
+}
+
+// Nondeterministic finite automata over the characters of a URL part
+
+type CharTest = (char: string) => boolean;
+type Transition = { to: number; test: CharTest | null };
+type Nfa = { transitions: Array<Array<Transition>>; start: number; accept: number };
+
+// `loose` treats typed params like params without a type, `strict` treats them as matching nothing
+type TypedParams = 'loose' | 'strict';
+
+const anyChar: CharTest = () => true;
+const noChar: CharTest = () => false;
+
+// Mirrors the param regular expressions in route-pattern.ts
+const paramTests: Record<PartName, { test: CharTest; min: number }> = {
+  protocol: { test: anyChar, min: 0 },
+  hostname: { test: (char) => char !== '.', min: 1 },
+  port: { test: (char) => char >= '0' && char <= '9', min: 1 },
+  pathname: { test: (char) => char !== '/', min: 1 },
+};
+
+// The characters that can appear in each part of a parsed URL
+const validChars: Record<PartName, CharTest> = {
+  protocol: (char) => /^[a-z0-9+.-]$/.test(char),
+  hostname: (char) => !/^[A-Z\s/?#@\\]$/.test(char),
+  port: (char) => char >= '0' && char <= '9',
+  pathname: (char) => !/^[\s?#]$/.test(char),
+};
+
+function buildNfa(part: Part, name: PartName, typedParams: TypedParams): Nfa {
+  const transitions: Array<Array<Transition>> = [];
+  const state = () => transitions.push([]) - 1;
+  const link = (from: number, to: number, test: CharTest | null) => {
+    transitions[from].push({ to, test });
+  };
+
+  const buildText = (text: string, from: number): number => {
+    for (const char of text) {
+      const to = state();
+      link(from, to, (other) => other === char);
+      from = to;
+    }
+    return from;
+  };
+
+  const buildPart = (nodes: Part, from: number): number => {
+    for (const node of nodes) {
+      if (node.type === 'text') {
+        from = buildText(node.value, from);
+      } else if (node.type === 'param' || node.type === 'glob') {
+        const { test, min } =
+          node.type === 'glob'
+            ? { test: anyChar, min: 0 }
+            : node.typeName !== undefined && typedParams === 'strict'
+              ? { test: noChar, min: 1 }
+              : paramTests[name];
+        const loop = state();
+        link(loop, loop, test);
+        if (min === 0) {
+          link(from, loop, null);
+        } else {
+          link(from, loop, test);
+        }
+        from = loop;
+      } else if (node.type === 'enum') {
+        const to = state();
+        for (const member of node.members) link(buildText(member, from), to, null);
+        from = to;
+      } else if (node.type === 'optional') {
+        const to = buildPart(node.nodes, from);
+        link(from, to, null);
+        from = to;
+      }
+    }
+    return from;
+  };
+
+  const start = state();
+  const accept = buildPart(part, start);
+  const nfa = { transitions, start, accept };
+  if (name !== 'pathname' || !ownsLeadingSlash(part)) return nfa;
+
+  // Pathnames like `(/:lang)` are matched with their leading `/`, so start after it instead. The
+  // pathname `/` is matched as the empty string.
+  const startStates = closure(nfa, [start]);
+  const afterSlash = state();
+  for (const to of step(nfa, startStates, '/')) link(afterSlash, to, null);
+  if (startStates.has(accept)) link(afterSlash, accept, null);
+  return { transitions, start: afterSlash, accept };
+}
+
+// Characters that behave the same in every test are interchangeable, so it's enough to try the
+// literal characters in the parts, the separators, and one character that is neither.
+function alphabet(parts: Array<Part>, name: PartName): Array<string> {
+  const chars = new Set(['.', '/']);
+
+  const collect = (nodes: Part) => {
+    for (const node of nodes) {
+      if (node.type === 'text') for (const char of node.value) chars.add(char);
+      if (node.type === 'enum') for (const char of node.members.join('')) chars.add(char);
+      if (node.type === 'optional') collect(node.nodes);
+    }
+  };
+  for (const part of parts) collect(part);
+
+  for (const fresh of ['abcdefghijklmnopqrstuvwxyz', '0123456789']) {
+    const char = Array.from(fresh).find((char) => !chars.has(char));
+    if (char) chars.add(char);
+  }
+
+  return Array.from(chars).filter(validChars[name]);
+}
+
+function closure(nfa: Nfa, states: Iterable<number>): Set<number> {
+  const result = new Set(states);
+  const stack = Array.from(result);
+  while (stack.length > 0) {
+    for (const { to, test } of nfa.transitions[stack.pop()!]) {
+      if (test === null && !result.has(to)) {
+        result.add(to);
+        stack.push(to);
+      }
+    }
+  }
+  return result;
+}
+
+function step(nfa: Nfa, states: Set<number>, char: string): Set<number> {
+  const next: Array<number> = [];
+  for (const state of states) {
+    for (const { to, test } of nfa.transitions[state]) {
+      if (test?.(char)) next.push(to);
+    }
+  }
+  return closure(nfa, next);
+}
+
+function isEmpty(nfa: Nfa, chars: Array<string>): boolean {
+  return !intersects(nfa, nfa, chars);
+}
+
+function intersects(a: Nfa, b: Nfa, chars: Array<string>): boolean {
+  const key = (states: [Set<number>, Set<number>]) =>
+    states.map((set) => Array.from(set).sort().join(',')).join('|');
+
+  const start: [Set<number>, Set<number>] = [closure(a, [a.start]), closure(b, [b.start])];
+  const seen = new Set([key(start)]);
+  const queue = [start];
+
+  while (queue.length > 0) {
+    const [statesA, statesB] = queue.shift()!;
+    if (statesA.has(a.accept) && statesB.has(b.accept)) return true;
+
+    for (const char of chars) {
+      const next: [Set<number>, Set<number>] = [step(a, statesA, char), step(b, statesB, char)];
+      if (next[0].size === 0 || next[1].size === 0 || seen.has(key(next))) continue;
+      seen.add(key(next));
+      queue.push(next);
+    }
+  }
+
+  return false;
+}
+
+// Whether every string that `sub` accepts is also accepted by `sup`
+function isSubset(sub: Nfa, sup: Nfa, chars: Array<string>): boolean {
+  const key = (states: [Set<number>, Set<number>]) =>
+    states.map((set) => Array.from(set).sort().join(',')).join('|');
+
+  const start: [Set<number>, Set<number>] = [closure(sub, [sub.start]), closure(sup, [sup.start])];
+  const seen = new Set([key(start)]);
+  const queue = [start];
+
+  while (queue.length > 0) {
+    const [statesSub, statesSup] = queue.shift()!;
+    if (statesSub.has(sub.accept) && !statesSup.has(sup.accept)) return false;
+
+    for (const char of chars) {
+      const next: [Set<number>, Set<number>] = [
+        step(sub, statesSub, char),
+        step(sup, statesSup, char),
+      ];
+      if (next[0].size === 0 || seen.has(key(next))) continue;
+      seen.add(key(next));
+      queue.push(next);
+    }
+  }
+
+  return true;
+}
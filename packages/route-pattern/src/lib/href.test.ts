@@ -0,0 +1,328 @@
+import * as assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+
+import { InvalidParamValueError, MissingParamError } from './href.ts';
+import { RoutePattern } from './route-pattern.ts';
+
+describe('RoutePattern.href', () => {
+  const hrefTests = [
+    {
+      name: 'builds static pathnames',
+      pattern: 'users',
+      params: {},
+      expected: '/users',
+    },
+    {
+      name: 'builds the root pathname',
+      pattern: '',
+      params: {},
+      expected: '/',
+    },
+    {
+      name: 'fills params',
+      pattern: 'users/:userId/posts/:postId',
+      params: { userId: '123', postId: 456 },
+      expected: '/users/123/posts/456',
+    },
+    {
+      name: 'fills globs',
+      pattern: 'assets/*path',
+      params: { path: 'images/logo.png' },
+      expected: '/assets/images/logo.png',
+    },
+    {
+      name: 'picks the first enum member',
+      pattern: 'files/:name.{jpg,png}',
+      params: { name: 'logo' },
+      expected: '/files/logo.jpg',
+    },
+    {
+      name: 'includes optionals when their params have values',
+      pattern: 'api(/v:version)/users/:id',
+      params: { version: '2', id: '123' },
+      expected: '/api/v2/users/123',
+    },
+    {
+      name: 'drops optionals when their params are missing',
+      pattern: 'api(/v:version)/users/:id',
+      params: { id: '123' },
+      expected: '/api/users/123',
+    },
+    {
+      name: 'drops optionals when only some of their params have values',
+      pattern: 'api(/v:major.:minor)',
+      params: { major: '2' },
+      expected: '/api',
+    },
+    {
+      name: 'drops optionals without params',
+      pattern: 'blog/:slug(.html)',
+      params: { slug: 'hello' },
+      expected: '/blog/hello',
+    },
+    {
+      name: 'keeps escaped characters',
+      pattern: 'users\\:test',
+      params: {},
+      expected: '/users:test',
+    },
+    {
+      name: 'escapes param values in the pathname',
+      pattern: 'search/:query',
+      params: { query: 'hello world/?' },
+      expected: '/search/hello%20world%2F%3F',
+    },
+    {
+      name: 'keeps slashes in glob values in the pathname',
+      pattern: 'files/*path',
+      params: { path: 'my docs/read me.txt' },
+      expected: '/files/my%20docs/read%20me.txt',
+    },
+    {
+      name: 'builds full URLs',
+      pattern: 'https://:tenant.example.com/users/:id',
+      params: { tenant: 'acme', id: '123' },
+      expected: 'https://acme.example.com/users/123',
+    },
+    {
+      name: 'fills protocol params',
+      pattern: ':protocol://example.com/users',
+      params: { protocol: 'http' },
+      expected: 'http://example.com/users',
+    },
+    {
+      name: 'builds protocol-relative URLs when the pattern has no protocol',
+      pattern: '://example.com/users',
+      params: {},
+      expected: '//example.com/users',
+    },
+    {
+      name: 'fills hostname globs',
+      pattern: '://*host.example.com',
+      params: { host: 'api.v1' },
+      expected: '//api.v1.example.com/',
+    },
+    {
+      name: 'includes ports',
+      pattern: 'http://localhost:3000/api',
+      params: {},
+      expected: 'http://localhost:3000/api',
+    },
+    {
+      name: 'fills port params',
+      pattern: 'http://localhost::port/api',
+      params: { port: 8080 },
+      expected: 'http://localhost:8080/api',
+    },
+    {
+      name: 'fills optional ports',
+      pattern: 'http://localhost(::port)/api',
+      params: { port: 8080 },
+      expected: 'http://localhost:8080/api',
+    },
+    {
+      name: 'leaves out optional ports without values',
+      pattern: 'http://localhost(::port)/api',
+      params: {},
+      expected: 'http://localhost/api',
+    },
+    {
+      name: 'leaves out static optional ports',
+      pattern: 'http://localhost(:3000)/api',
+      params: {},
+      expected: 'http://localhost/api',
+    },
+    {
+      name: 'fills nested optionals',
+      pattern: 'docs(/:version(/:page))',
+      params: { version: 'v2', page: 'routing' },
+      expected: '/docs/v2/routing',
+    },
+    {
+      name: 'leaves out inner optionals without values',
+      pattern: 'docs(/:version(/:page))',
+      params: { version: 'v2' },
+      expected: '/docs/v2',
+    },
+    {
+      name: 'leaves out inner optionals when the outer optional has no values',
+      pattern: 'docs(/:version(/:page))',
+      params: { page: 'routing' },
+      expected: '/docs',
+    },
+    {
+      name: 'fills optionals that only contain optionals with values',
+      pattern: 'docs(/guide(/:page))',
+      params: { page: 'routing' },
+      expected: '/docs/guide/routing',
+    },
+    {
+      name: 'fills optional subdomains',
+      pattern: '://(:lang.)docs.example.com',
+      params: { lang: 'fr' },
+      expected: '//fr.docs.example.com/',
+    },
+    {
+      name: 'fills optional pathnames after the hostname',
+      pattern: '://example.com(/:lang)/docs',
+      params: { lang: 'fr' },
+      expected: '//example.com/fr/docs',
+    },
+    {
+      name: 'leaves out optional pathnames after the hostname',
+      pattern: '://example.com(/:lang)/docs',
+      params: {},
+      expected: '//example.com/docs',
+    },
+    {
+      name: 'leaves out optional pathnames that are the whole pathname',
+      pattern: '://example.com(/:lang)',
+      params: {},
+      expected: '//example.com/',
+    },
+    {
+      name: 'fills optional protocols',
+      pattern: '(:protocol://)example.com',
+      params: { protocol: 'https' },
+      expected: 'https://example.com/',
+    },
+    {
+      name: 'leaves out optional protocols without params',
+      pattern: '(https://)example.com',
+      params: {},
+      expected: '//example.com/',
+    },
+    {
+      name: 'includes search params from the pattern',
+      pattern: 'search?format=json',
+      params: {},
+      expected: '/search?format=json',
+    },
+  ];
+
+  hrefTests.forEach(({ name, pattern, params, expected }) => {
+    it(name, () => {
+      assert.equal(new RoutePattern(pattern).href(params), expected);
+    });
+  });
+
+  it('fills search params', () => {
+    const pattern = new RoutePattern('posts?page=:page<int>&(sort=:sort)&tags=*tags&preview');
+    assert.equal(
+      pattern.href({ page: 2, tags: ['a', 'b c'] }),
+      '/posts?page=2&tags=a&tags=b+c&preview=',
+    );
+    assert.equal(
+      pattern.href({ page: 2, sort: 'date', tags: [] }),
+      '/posts?page=2&sort=date&preview=',
+    );
+  });
+
+  it('throws when a required search param is missing', () => {
+    const pattern = new RoutePattern('posts?page=:page');
+    // @ts-expect-error - `page` is required
+    assert.throws(() => pattern.href({}), {
+      name: 'MissingParamError',
+      message: 'Cannot build href: missing value for param "page" in search',
+    });
+  });
+
+  it('leaves out optional literal search params', () => {
+    assert.equal(new RoutePattern('posts?(format=json)&(preview)').href(), '/posts');
+  });
+
+  it('appends extra search params', () => {
+    const pattern = new RoutePattern('search?format=json');
+    assert.equal(pattern.href({}, { q: 'remix run' }), '/search?format=json&q=remix+run');
+    assert.equal(
+      pattern.href({}, [
+        ['q', 'a'],
+        ['q', 'b'],
+      ]),
+      '/search?format=json&q=a&q=b',
+    );
+  });
+
+  it('builds URLs that the pattern matches', () => {
+    const pattern = new RoutePattern('://:tenant.example.com/api(/v:version)/files/*path');
+    const params = { tenant: 'acme', version: '2', path: 'docs/readme.md' };
+    const url = new URL('https:' + pattern.href(params));
+    assert.deepEqual(pattern.match(url), { params });
+  });
+
+  describe('missing params', () => {
+    it('throws when a required param is missing', () => {
+      const pattern = new RoutePattern('users/:id');
+      assert.throws(
+        // @ts-expect-error - `id` is required
+        () => pattern.href(),
+        (error) => {
+          assert.ok(error instanceof MissingParamError);
+          assert.equal(error.paramName, 'id');
+          assert.equal(
+            error.message,
+            'Cannot build href: missing value for param "id" in pathname',
+          );
+          return true;
+        },
+      );
+    });
+
+    it('throws when a required glob is missing', () => {
+      const pattern = new RoutePattern('://*host.example.com');
+      // @ts-expect-error - `host` is required
+      assert.throws(() => pattern.href(), {
+        name: 'MissingParamError',
+        message: 'Cannot build href: missing value for param "host" in hostname',
+      });
+    });
+
+    it('throws when the pattern has a required unnamed param', () => {
+      const pattern = new RoutePattern('users/:');
+      assert.throws(() => pattern.href(), {
+        name: 'MissingParamError',
+        message: 'Cannot build href: unnamed param in pathname has no value',
+      });
+    });
+  });
+
+  describe('invalid params', () => {
+    const invalidTests = [
+      { pattern: 'https://:sub.example.com/x', params: { sub: 'a/b' }, part: 'hostname' },
+      { pattern: 'https://:sub.example.com/x', params: { sub: 'a.b' }, part: 'hostname' },
+      { pattern: 'https://:sub.example.com/x', params: { sub: 'user@evil' }, part: 'hostname' },
+      { pattern: 'https://:sub.example.com/x', params: { sub: '' }, part: 'hostname' },
+      { pattern: 'https://*host/x', params: { host: 'evil.com?' }, part: 'hostname' },
+      { pattern: '://localhost::port', params: { port: '80/evil' }, part: 'port' },
+      { pattern: '://localhost::port', params: { port: 'http' }, part: 'port' },
+      { pattern: ':proto://example.com', params: { proto: 'javascript:alert' }, part: 'protocol' },
+    ];
+
+    invalidTests.forEach(({ pattern, params, part }) => {
+      it(`throws for ${JSON.stringify(Object.values(params)[0])} in ${pattern}`, () => {
+        const [paramName, value] = Object.entries(params)[0];
+        assert.throws(
+          () => new RoutePattern(pattern).href(params),
+          (error) => {
+            assert.ok(error instanceof InvalidParamValueError);
+            assert.equal(error.paramName, paramName);
+            assert.equal(error.value, value);
+            assert.equal(
+              error.message,
+              `Cannot build href: invalid value ${JSON.stringify(value)} for param "${paramName}" in ${part}`,
+            );
+            return true;
+          },
+        );
+      });
+    });
+
+    it('allows valid values outside of the pathname', () => {
+      const pattern = new RoutePattern(':proto://*host.example.com::port/x');
+      assert.equal(
+        pattern.href({ proto: 'https', host: 'a.b', port: 8080 }),
+        'https://a.b.example.com:8080/x',
+      );
+    });
+  });
+});
@@ -0,0 +1,215 @@
+import type { ParamTypes, ParamTypeValue, ParamValues } from './param-types.ts';
+import type { ParamEntries, ParamEntry, SearchGlob, Simplify } from './params.ts';
+import {
+  ownsLeadingSlash,
+  type Ast,
+  type Glob,
+  type Param,
+  type Part,
+  type PartName,
+  type Search,
+} from './parse.ts';
+
+// Params with a type also accept values of that type, and search globs accept many values
+type HrefParamValue<TypeName extends string, T extends ParamValues> = TypeName extends ''
+  ? string | number
+  : TypeName extends SearchGlob
+    ? Array<string | number>
+    : string | number | ParamTypeValue<TypeName, T>;
+
+/**
+ * Values for the params in a pattern when building an href. When the pattern source is a string
+ * literal, params outside of optionals are required.
+ */
+export type HrefParams<S extends string = string, T extends ParamValues = {}> = string extends S
+  ? Record<string, unknown>
+  : ParamEntries<S> extends [infer Required extends ParamEntry, infer Optional extends ParamEntry]
+    ? Simplify<
+        { [E in Required as E[0]]: HrefParamValue<E[1], T> } & {
+          [E in Optional as E[0]]?: HrefParamValue<E[1], T>;
+        }
+      >
+    : never;
+
+export type HrefSearchParams = ConstructorParameters<typeof URLSearchParams>[0];
+
+export type HrefArgs<S extends string = string, T extends ParamValues = {}> =
+  {} extends HrefParams<S, T>
+    ? [params?: HrefParams<S, T>, search?: HrefSearchParams]
+    : [params: HrefParams<S, T>, search?: HrefSearchParams];
+
+/**
+ * An error thrown when an href cannot be built because a required param is missing.
+ */
+export class MissingParamError extends Error {
+  /**
+   * The name of the missing param, or `undefined` if the param is unnamed.
+   */
+  readonly paramName: string | undefined;
+
+  constructor(paramName: string | undefined, part: PartName) {
+    super(
+      paramName === undefined
+        ? `Cannot build href: unnamed param in ${part} has no value`
+        : `Cannot build href: missing value for param "${paramName}" in ${part}`,
+    );
+    this.name = 'MissingParamError';
+    this.paramName = paramName;
+  }
+}
+
+/**
+ * An error thrown when an href cannot be built because a param value can't be used in its part of
+ * the URL, like a hostname param with a `/` or a port param that isn't a number.
+ */
+export class InvalidParamValueError extends Error {
+  /**
+   * The name of the param.
+   */
+  readonly paramName: string;
+  /**
+   * The invalid value.
+   */
+  readonly value: string;
+
+  constructor(paramName: string, value: string, part: PartName) {
+    super(
+      `Cannot build href: invalid value ${JSON.stringify(value)} for param "${paramName}" in ${part}`,
+    );
+    this.name = 'InvalidParamValueError';
+    this.paramName = paramName;
+    this.value = value;
+  }
+}
+
+export function buildHref(
+  ast: Ast,
+  types: ParamTypes,
+  params: HrefParams,
+  search?: HrefSearchParams,
+): string {
+  let href = '';
+
+  if (ast.hostname) {
+    // Optional protocols like `(https://)` are left out unless their params have values
+    const protocol = ast.protocol ? fillPart(ast.protocol, types, params, 'protocol') : '';
+    if (protocol !== '') href += protocol + ':';
+    href += '//' + fillPart(ast.hostname, types, params, 'hostname');
+    const port = ast.port ? fillPart(ast.port, types, params, 'port') : '';
+    if (port !== '') href += ':' + port;
+  }
+
+  const pathname = ast.pathname ? fillPart(ast.pathname, types, params, 'pathname') : '';
+  // Pathnames like `(/:lang)` bring their own leading `/` when the optional is included
+  const ownSlash = ast.pathname !== undefined && ownsLeadingSlash(ast.pathname);
+  href += ownSlash && pathname.startsWith('/') ? pathname : '/' + pathname;
+
+  const searchParams = new URLSearchParams();
+  if (ast.search) fillSearch(ast.search, types, params, searchParams);
+  for (const [key, value] of new URLSearchParams(search)) {
+    searchParams.append(key, value);
+  }
+  if (searchParams.size > 0) href += '?' + searchParams.toString();
+
+  return href;
+}
+
+function fillPart(part: Part, types: ParamTypes, params: HrefParams, partName: PartName): string {
+  let result = '';
+
+  for (const node of part) {
+    if (node.type === 'text') {
+      result += node.value;
+    } else if (node.type === 'param' || node.type === 'glob') {
+      const value = node.name === undefined ? undefined : params[node.name];
+      if (value === undefined) throw new MissingParamError(node.name, partName);
+      result += encodeValue(stringifyValue(value, node, types), node, partName);
+    } else if (node.type === 'enum') {
+      result += node.members[0];
+    } else if (node.type === 'optional') {
+      // Optionals are only included when they contain params and all of them have values
+      if (canFill(node.nodes, params)) result += fillPart(node.nodes, types, params, partName);
+    }
+  }
+
+  return result;
+}
+
+function fillSearch(
+  search: Search,
+  types: ParamTypes,
+  params: HrefParams,
+  searchParams: URLSearchParams,
+) {
+  for (const param of search) {
+    const { key, value } = param;
+
+    // Optional search params are only included when they capture a value
+    if (!value || value.type === 'text') {
+      if (!param.optional) searchParams.append(key, value?.value ?? '');
+      continue;
+    }
+
+    const paramValue = value.name === undefined ? undefined : params[value.name];
+    if (paramValue === undefined) {
+      if (param.optional) continue;
+      throw new MissingParamError(value.name, 'search');
+    }
+
+    const values = value.type === 'glob' && Array.isArray(paramValue) ? paramValue : [paramValue];
+    for (const item of values) searchParams.append(key, stringifyValue(item, value, types));
+  }
+}
+
+function stringifyValue(value: unknown, node: Param | Glob, types: ParamTypes): string {
+  const type =
+    node.type === 'param' && node.typeName !== undefined ? types[node.typeName] : undefined;
+  return typeof value !== 'string' && type?.stringify ? type.stringify(value) : String(value);
+}
+
+// Optionals can be filled when all of their own params have values, and they have params or a
+// nested optional that can be filled
+function canFill(part: Part, params: HrefParams): boolean {
+  let hasParams = false;
+  let hasNested = false;
+
+  for (const node of part) {
+    if (node.type === 'param' || node.type === 'glob') {
+      if (node.name === undefined || params[node.name] === undefined) return false;
+      hasParams = true;
+    }
+    if (node.type === 'optional' && !hasNested) hasNested = canFill(node.nodes, params);
+  }
+
+  return hasParams || hasNested;
+}
+
+// Characters that can't be in a hostname, see https://url.spec.whatwg.org/#forbidden-host-code-point
+const forbiddenHostRE = /[\s#%/:<>?@[\\\]^|]/;
+
+function encodeValue(value: string, node: Param | Glob, partName: PartName): string {
+  if (partName === 'pathname') {
+    // Globs may span multiple segments, so their slashes are kept as-is
+    if (node.type === 'glob') return value.split('/').map(encodeURIComponent).join('/');
+    return encodeURIComponent(value);
+  }
+
+  // Hostnames, ports and protocols can't be percent-encoded, so values that would change the
+  // meaning of the URL are rejected. Hostname params are a single label, so they can't contain `.`
+  // either, but globs may span several labels.
+  let valid: boolean;
+  if (partName === 'hostname') {
+    valid =
+      value !== '' &&
+      !forbiddenHostRE.test(value) &&
+      (node.type === 'glob' || !value.includes('.'));
+  } else if (partName === 'port') {
+    valid = /^\d+$/.test(value);
+  } else {
+    valid = /^[a-zA-Z0-9+.-]+$/.test(value);
+  }
+
+  if (!valid) throw new InvalidParamValueError(node.name!, value, partName);
+
+  return value;
+}
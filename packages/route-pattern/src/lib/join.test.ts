@@ -0,0 +1,134 @@
+import * as assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+
+import { joinSources, type JoinSources } from './join.ts';
+import { RoutePattern, type Params } from './route-pattern.ts';
+
+type Equal<A, B> =
+  (<T>() => T extends A ? 1 : 2) extends <T>() => T extends B ? 1 : 2 ? true : false;
+
+function assertType<_T extends true>() {}
+
+describe('joinSources', () => {
+  const joinTests = [
+    { parent: 'admin', child: 'users/:id', expected: 'admin/users/:id' },
+    { parent: 'admin/', child: 'users', expected: 'admin/users' },
+    { parent: 'admin/', child: '/users', expected: 'admin/users' },
+    { parent: 'admin', child: '/users', expected: 'admin/users' },
+    { parent: '', child: 'users', expected: 'users' },
+    { parent: 'admin', child: '', expected: 'admin' },
+    { parent: 'docs', child: '(/:page)', expected: 'docs(/:page)' },
+    { parent: 'admin/', child: '(/:page)', expected: 'admin(/:page)' },
+    { parent: '(:lang/)', child: '/about', expected: '(:lang/)about' },
+    { parent: '(:lang/)', child: 'about', expected: '(:lang/)about' },
+    { parent: 'api(/v:version)', child: 'users', expected: 'api(/v:version)/users' },
+    { parent: 'files/*', child: 'raw', expected: 'files/*/raw' },
+    {
+      parent: '://:tenant.example.com',
+      child: 'users/:id',
+      expected: '://:tenant.example.com/users/:id',
+    },
+    {
+      parent: 'https://example.com/api',
+      child: 'users',
+      expected: 'https://example.com/api/users',
+    },
+    { parent: '://example.com:8080', child: 'users', expected: '://example.com:8080/users' },
+    {
+      parent: 'https://example.com/api',
+      child: '://admin.example.com/users',
+      expected: '://admin.example.com/api/users',
+    },
+    { parent: '://example.com', child: '', expected: '://example.com' },
+    { parent: '://example.com', child: '(/:lang)', expected: '://example.com(/:lang)' },
+    { parent: '://example.com(/:lang)', child: 'docs', expected: '://example.com(/:lang)/docs' },
+    { parent: '(https://)example.com', child: 'docs', expected: '(https://)example.com/docs' },
+    { parent: 'search?q=:query', child: 'posts', expected: 'search/posts?q=:query' },
+    { parent: 'admin', child: 'posts?page=:page', expected: 'admin/posts?page=:page' },
+    {
+      parent: 'admin?(preview)',
+      child: 'posts?page=:page',
+      expected: 'admin/posts?(preview)&page=:page',
+    },
+  ];
+
+  joinTests.forEach(({ parent, child, expected }) => {
+    it(`joins ${JSON.stringify(parent)} and ${JSON.stringify(child)}`, () => {
+      assert.equal(joinSources(parent, child), expected);
+    });
+  });
+});
+
+describe('JoinSources', () => {
+  it('mirrors joinSources()', () => {
+    assertType<Equal<JoinSources<'admin', 'users/:id'>, 'admin/users/:id'>>();
+    assertType<Equal<JoinSources<'admin/', '/users'>, 'admin/users'>>();
+    assertType<Equal<JoinSources<'docs', '(/:page)'>, 'docs(/:page)'>>();
+    assertType<Equal<JoinSources<'admin/', '(/:page)'>, 'admin(/:page)'>>();
+    assertType<Equal<JoinSources<'(:lang/)', '/about'>, '(:lang/)about'>>();
+    assertType<Equal<JoinSources<'(:lang/)', 'about'>, '(:lang/)about'>>();
+    assertType<
+      Equal<JoinSources<'://:tenant.example.com', 'users'>, '://:tenant.example.com/users'>
+    >();
+    assertType<
+      Equal<
+        JoinSources<'https://example.com/api', '://admin.example.com/users'>,
+        '://admin.example.com/api/users'
+      >
+    >();
+    assertType<
+      Equal<JoinSources<'admin?(preview)', 'posts?page=:page'>, 'admin/posts?(preview)&page=:page'>
+    >();
+    assertType<Equal<JoinSources<'://example.com', '(/:lang)'>, '://example.com(/:lang)'>>();
+    assertType<
+      Equal<JoinSources<'://example.com(/:lang)', 'docs'>, '://example.com(/:lang)/docs'>
+    >();
+  });
+
+  it('is a string when either source is not a literal', () => {
+    assertType<Equal<JoinSources<string, 'users'>, string>>();
+    assertType<Equal<JoinSources<'admin', string>, string>>();
+  });
+});
+
+describe('RoutePattern.join', () => {
+  it('joins strings and RoutePatterns', () => {
+    const admin = new RoutePattern('admin');
+    assert.equal(admin.join('users/:id').source, 'admin/users/:id');
+    assert.equal(admin.join(new RoutePattern('users/:id')).source, 'admin/users/:id');
+  });
+
+  it('keeps the params of both patterns', () => {
+    const users = new RoutePattern('://:tenant.example.com').join('users/:id<int>?(tab=:tab)');
+    assertType<Equal<Params<typeof users.source>, { tenant: string; id: number; tab?: string }>>();
+
+    assert.deepEqual(users.match('https://acme.example.com/users/123'), {
+      params: { tenant: 'acme', id: 123, tab: undefined },
+    });
+    assert.equal(users.href({ tenant: 'acme', id: 123 }), '//acme.example.com/users/123');
+  });
+
+  it('uses the options of the parent pattern', () => {
+    const hex = { pattern: /[0-9a-f]+/, parse: (value: string) => parseInt(value, 16) };
+    const colors = new RoutePattern('Colors', { types: { hex }, ignoreCase: true });
+    const color = colors.join(':value<hex>');
+
+    assert.deepEqual(color.match('https://example.com/colors/ff'), { params: { value: 255 } });
+  });
+
+  it('keeps a child optional slash inside the optional', () => {
+    const pages = new RoutePattern('admin/').join('(/:page)');
+    assert.equal(pages.source, 'admin(/:page)');
+    assert.ok(pages.match('https://example.com/admin'));
+    assert.deepEqual(pages.match('https://example.com/admin/x'), { params: { page: 'x' } });
+    assert.equal(pages.match('https://example.com/admin//x'), null);
+  });
+
+  it('can be nested', () => {
+    const pattern = new RoutePattern('api(/v:version)').join('admin').join('users/:id');
+    assert.equal(pattern.source, 'api(/v:version)/admin/users/:id');
+    assert.deepEqual(pattern.match('https://example.com/api/v2/admin/users/1'), {
+      params: { version: '2', id: '1' },
+    });
+  });
+});
@@ -0,0 +1,116 @@
+import type { SearchOf, StripSearch } from './params.ts';
+
+/**
+ * The source of a pattern that is made by joining a child pattern to a parent pattern. Mirrors
+ * `joinSources()`.
+ */
+export type JoinSources<P extends string, C extends string> = string extends P | C
+  ? string
+  : `${JoinOrigin<
+      OriginOf<C> extends '' ? OriginOf<P> : OriginOf<C>,
+      JoinPathnames<PathnameOf<P>, PathnameOf<C>>
+    >}${JoinSearch<SearchOf<P>, SearchOf<C>>}`;
+
+type OriginOf<S extends string> = SplitOrigin<StripSearch<S>>[0];
+type PathnameOf<S extends string> = SplitOrigin<StripSearch<S>>[1];
+
+type SplitOrigin<S extends string> = S extends `${infer Protocol}://${infer Rest}`
+  ? Rest extends `${infer Host}/${infer Pathname}`
+    ? Host extends `${infer HostBeforeOptional}(`
+      ? [`${Protocol}://${HostBeforeOptional}`, `(/${Pathname}`]
+      : [`${Protocol}://${Host}`, Pathname]
+    : [S, '']
+  : ['', S];
+
+type JoinOrigin<Origin extends string, Pathname extends string> = Origin extends ''
+  ? Pathname
+  : Pathname extends ''
+    ? Origin
+    : Pathname extends `(/${string}`
+      ? `${Origin}${Pathname}`
+      : `${Origin}/${Pathname}`;
+
+type JoinPathnames<P extends string, C extends string> = P extends ''
+  ? C
+  : C extends ''
+    ? P
+    : P extends `${infer Head}/`
+      ? C extends `/${infer Rest}`
+        ? `${P}${Rest}`
+        : C extends `(/${string}`
+          ? `${Head}${C}`
+          : `${P}${C}`
+      : P extends `${string}/)`
+        ? C extends `/${infer Rest}`
+          ? `${P}${Rest}`
+          : `${P}${C}`
+        : C extends `/${string}` | `(/${string}`
+          ? `${P}${C}`
+          : `${P}/${C}`;
+
+type JoinSearch<P extends string, C extends string> = P extends ''
+  ? C extends ''
+    ? ''
+    : `?${C}`
+  : C extends ''
+    ? `?${P}`
+    : `?${P}&${C}`;
+
+/**
+ * Joins the source of a child pattern to the source of a parent pattern. The child's protocol,
+ * hostname and port replace the parent's if it has any, the pathnames are joined with a single
+ * `/`, and the search params of both are kept.
+ */
+export function joinSources(parent: string, child: string): string {
+  const [parentBase, parentSearch] = splitSearch(parent);
+  const [childBase, childSearch] = splitSearch(child);
+  const [parentOrigin, parentPathname] = splitOrigin(parentBase);
+  const [childOrigin, childPathname] = splitOrigin(childBase);
+
+  const origin = childOrigin || parentOrigin;
+  const pathname = joinPathnames(parentPathname, childPathname);
+  const search = [parentSearch, childSearch].filter(Boolean).join('&');
+
+  // Pathnames like `(/:lang)` start with their own `/`
+  const separator = origin === '' || pathname === '' || pathname.startsWith('(/') ? '' : '/';
+  let source = origin + separator + pathname;
+  if (search !== '') source += `?${search}`;
+  return source;
+}
+
+// Everything after the first `?` is the search, like in `split()`
+function splitSearch(source: string): [base: string, search: string] {
+  const index = source.indexOf('?');
+  return index === -1 ? [source, ''] : [source.slice(0, index), source.slice(index + 1)];
+}
+
+// The origin is everything before the first `/` after `://`, like in `split()`. An optional that
+// starts with that `/`, like `(/:lang)`, belongs to the pathname.
+function splitOrigin(source: string): [origin: string, pathname: string] {
+  const solidus = source.indexOf('://');
+  if (solidus === -1) return ['', source];
+
+  const hostEnd = source.indexOf('/', solidus + 3);
+  if (hostEnd === -1) return [source, ''];
+  if (source[hostEnd - 1] === '(' && source[hostEnd - 2] !== '\\') {
+    return [source.slice(0, hostEnd - 1), source.slice(hostEnd - 1)];
+  }
+  return [source.slice(0, hostEnd), source.slice(hostEnd + 1)];
+}
+
+// Adds a `/` between the pathnames unless there already is one at the seam, including one at the
+// start of an optional like `(/:page)` or at the end of an optional like `(:lang/)`. When both sides
+// have one, the one outside the optional is dropped
+function joinPathnames(parent: string, child: string): string {
+  if (parent === '') return child;
+  if (child === '') return parent;
+  if (parent.endsWith('/')) {
+    if (child.startsWith('/')) return parent + child.slice(1);
+    if (child.startsWith('(/')) return parent.slice(0, -1) + child;
+    return parent + child;
+  }
+  if (parent.endsWith('/)'))
+    return child.startsWith('/') ? parent + child.slice(1) : parent + child;
+  if (child.startsWith('/') || child.startsWith('(/')) return parent + child;
+  return `${parent}/${child}`;
+}
@@ -0,0 +1,66 @@
+/**
+ * A named type for params, used in patterns like `:id<int>`. The type's `pattern` restricts which
+ * values the param matches and `parse()` converts a matched value into the param's value.
+ */
+export interface ParamType<T = unknown> {
+  /**
+   * The values that a param of this type matches. Flags are ignored.
+   */
+  pattern: RegExp;
+  /**
+   * Converts a matched value into the value of the param.
+   */
+  parse(value: string): T;
+  /**
+   * Converts a param value back into a string when building an href. Defaults to `String(value)`.
+   */
+  stringify?(value: T): string;
+}
+
+/**
+ * A map of param type names to the values of those types.
+ */
+export type ParamValues = Record<string, unknown>;
+
+/**
+ * A map of param type names to param types.
+ */
+export type ParamTypes<T extends ParamValues = ParamValues> = { [K in keyof T]: ParamType<T[K]> };
+
+export const defaultParamTypes: ParamTypes<DefaultParamValues> = {
+  int: {
+    pattern: /\d+/,
+    parse: (value) => parseInt(value, 10),
+  },
+  uuid: {
+    pattern: /[0-9a-fA-F]{8}-[0-9a-fA-F]{4}-[0-9a-fA-F]{4}-[0-9a-fA-F]{4}-[0-9a-fA-F]{12}/,
+    parse: (value) => value.toLowerCase(),
+  },
+};
+
+export type DefaultParamValues = { int: number; uuid: string };
+
+/**
+ * The values of the param types that are available to a pattern: the defaults, plus any custom
+ * types. Custom types override defaults with the same name.
+ */
+export type ResolvedParamValues<T extends ParamValues> = Omit<DefaultParamValues, keyof T> & T;
+
+export function resolveParamTypes(types?: ParamTypes): ParamTypes {
+  return { ...defaultParamTypes, ...types };
+}
+
+/**
+ * The value of a param with the given type name, or `string` for params without a type.
+ */
+export type ParamTypeValue<TypeName extends string, T extends ParamValues> = TypeName extends ''
+  ? string
+  : TypeName extends keyof ResolvedParamValues<T>
+    ? ResolvedParamValues<T>[TypeName]
+    : unknown;
+
+/**
+ * The values of all param types that are available to a pattern.
+ */
+export type AnyParamTypeValue<T extends ParamValues> =
+  ResolvedParamValues<T>[keyof ResolvedParamValues<T>];
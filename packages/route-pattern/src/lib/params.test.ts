@@ -0,0 +1,139 @@
+import * as assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+
+import type { HrefParams } from './href.ts';
+import { RoutePattern, type Params } from './route-pattern.ts';
+
+type Equal<A, B> =
+  (<T>() => T extends A ? 1 : 2) extends <T>() => T extends B ? 1 : 2 ? true : false;
+
+function assertType<_T extends true>() {}
+
+describe('Params', () => {
+  it('infers named params', () => {
+    assertType<Equal<Params<'users/:id'>, { id: string }>>();
+    assertType<Equal<Params<'api/v:major.:minor'>, { major: string; minor: string }>>();
+    assertType<Equal<Params<'users/:user_id/posts/:$post'>, { user_id: string; $post: string }>>();
+  });
+
+  it('infers named globs', () => {
+    assertType<Equal<Params<'assets/*path'>, { path: string }>>();
+    assertType<
+      Equal<Params<'://app.unpkg.com/*path/dist/:file.mjs'>, { path: string; file: string }>
+    >();
+  });
+
+  it('ignores unnamed params and globs', () => {
+    assertType<Equal<Params<'users/:'>, {}>>();
+    assertType<Equal<Params<'products/:-shoes/*'>, {}>>();
+  });
+
+  it('infers params inside optionals as optional', () => {
+    assertType<
+      Equal<Params<'blog/:year/:slug(.:ext)'>, { year: string; slug: string; ext?: string }>
+    >();
+    assertType<Equal<Params<'api(/v:major.:minor)/users'>, { major?: string; minor?: string }>>();
+  });
+
+  it('infers params inside nested optionals as optional', () => {
+    assertType<Equal<Params<'docs(/:version(/:page))'>, { version?: string; page?: string }>>();
+    assertType<Equal<Params<'a(/:b(/:c))/:d'>, { b?: string; c?: string; d: string }>>();
+    assertType<Equal<Params<'://(:lang.)docs.example.com'>, { lang?: string }>>();
+    assertType<Equal<Params<'://localhost(::port<int>)'>, { port?: number }>>();
+    assertType<Equal<Params<'://example.com(/:lang)/docs'>, { lang?: string }>>();
+    assertType<Equal<Params<'(:protocol://)example.com'>, { protocol?: string }>>();
+  });
+
+  it('infers params in the protocol and hostname', () => {
+    assertType<
+      Equal<
+        Params<':protocol://:tenant.remix.run/users/:id'>,
+        { protocol: string; tenant: string; id: string }
+      >
+    >();
+  });
+
+  it('infers port params', () => {
+    assertType<Equal<Params<'http://localhost::port<int>/api'>, { port: number }>>();
+    assertType<Equal<Params<'http://localhost:3000/api/:id'>, { id: string }>>();
+  });
+
+  it('ignores enums', () => {
+    assertType<Equal<Params<'files/:name.{jpg,png,:gif}'>, { name: string }>>();
+  });
+
+  it('ignores escaped characters', () => {
+    assertType<Equal<Params<'users\\:test/\\*path/:id'>, { id: string }>>();
+  });
+
+  it('infers search params', () => {
+    assertType<Equal<Params<'search/:type?q=:query'>, { type: string; query: string }>>();
+    assertType<Equal<Params<'posts?page=:page<int>'>, { page: number }>>();
+    assertType<
+      Equal<Params<'posts?(page=:page)&(sort=:sort)'>, { page?: string; sort?: string }>
+    >();
+    assertType<Equal<Params<'search?tags=*tags'>, { tags: string[] }>>();
+  });
+
+  it('ignores literal and presence-only search params', () => {
+    assertType<Equal<Params<'search?format=json&preview&q=:'>, {}>>();
+  });
+
+  it('param names end at the first non-identifier character', () => {
+    assertType<
+      Equal<Params<'blog/:year-:month-:day'>, { year: string; month: string; day: string }>
+    >();
+    assertType<Equal<Params<':1'>, {}>>();
+  });
+
+  it('infers the values of typed params', () => {
+    assertType<
+      Equal<Params<'users/:id<int>/files(/:file<uuid>)'>, { id: number; file?: string }>
+    >();
+    assertType<Equal<Params<'archive/:date<date>', { date: Date }>, { date: Date }>>();
+    assertType<Equal<Params<'users/:id<nope>'>, { id: unknown }>>();
+  });
+
+  it('falls back to a record for non-literal sources', () => {
+    assertType<Equal<Params<string>, Record<string, string | string[] | number | undefined>>>();
+  });
+
+  it('infers custom param types from options', () => {
+    const pattern = new RoutePattern('archive/:date<date>', {
+      types: { date: { pattern: /\d{4}-\d{2}-\d{2}/, parse: (value) => new Date(value) } },
+    });
+    const match = pattern.match('https://remix.run/archive/2024-01-15');
+    assert.ok(match);
+    assertType<Equal<typeof match.params, { date: Date }>>();
+  });
+
+  it('types the params of a match', () => {
+    const pattern = new RoutePattern('api(/v:version)/users/:id');
+    const match = pattern.match('https://remix.run/api/v2/users/123');
+    assert.ok(match);
+    const id: string = match.params.id;
+    const version: string | undefined = match.params.version;
+    assert.equal(id, '123');
+    assert.equal(version, '2');
+  });
+});
+
+describe('HrefParams', () => {
+  it('requires params outside of optionals', () => {
+    assertType<
+      Equal<
+        HrefParams<'api(/v:version)/users/:id'>,
+        { id: string | number; version?: string | number }
+      >
+    >();
+  });
+
+  it('types the params of an href', () => {
+    const pattern = new RoutePattern('users/:id(.:format)');
+    assert.equal(pattern.href({ id: 1 }), '/users/1');
+    // @ts-expect-error - `id` is required
+    assert.throws(() => pattern.href({ format: 'json' }));
+    // @ts-expect-error - `name` is not a param
+    assert.equal(pattern.href({ id: 1, name: 'sarah' }), '/users/1');
+  });
+});
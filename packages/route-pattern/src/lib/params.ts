@@ -0,0 +1,131 @@
+import type { ParamTypeValue, ParamValues } from './param-types.ts';
+
+// Type-level version of `parse()` that collects the names of the params and globs in a pattern
+// source string. Params inside optionals are collected separately since they may be `undefined`.
+
+// prettier-ignore
+type Alpha =
+  | 'a' | 'b' | 'c' | 'd' | 'e' | 'f' | 'g' | 'h' | 'i' | 'j' | 'k' | 'l' | 'm'
+  | 'n' | 'o' | 'p' | 'q' | 'r' | 's' | 't' | 'u' | 'v' | 'w' | 'x' | 'y' | 'z'
+  | 'A' | 'B' | 'C' | 'D' | 'E' | 'F' | 'G' | 'H' | 'I' | 'J' | 'K' | 'L' | 'M'
+  | 'N' | 'O' | 'P' | 'Q' | 'R' | 'S' | 'T' | 'U' | 'V' | 'W' | 'X' | 'Y' | 'Z';
+type Digit = '0' | '1' | '2' | '3' | '4' | '5' | '6' | '7' | '8' | '9';
+type IdentifierStart = Alpha | '_' | '$';
+type IdentifierChar = IdentifierStart | Digit;
+
+// Mirrors `identifierRE` in parse.ts
+type ReadIdentifier<
+  S extends string,
+  Name extends string = '',
+> = S extends `${infer Char}${infer Rest}`
+  ? Char extends (Name extends '' ? IdentifierStart : IdentifierChar)
+    ? ReadIdentifier<Rest, `${Name}${Char}`>
+    : [Name, S]
+  : [Name, S];
+
+// Everything after the first `?` is the search
+export type StripSearch<S extends string> = S extends `${infer Source}?${string}` ? Source : S;
+export type SearchOf<S extends string> = S extends `${string}?${infer Search}` ? Search : '';
+
+// Reads the `<type>` after a param name, if there is one
+type ReadTypeName<S extends string> = S extends `<${infer TypeName}>${infer Rest}`
+  ? [TypeName, Rest]
+  : ['', S];
+
+type CollectParams<
+  S extends string,
+  Depth extends Array<unknown> = [],
+  Required extends ParamEntry = never,
+  Optional extends ParamEntry = never,
+> = S extends `${infer Char}${infer Rest}`
+  ? Char extends '\\'
+    ? Rest extends `${string}${infer AfterEscape}`
+      ? CollectParams<AfterEscape, Depth, Required, Optional>
+      : [Required, Optional]
+    : Char extends ':' | '*'
+      ? ReadIdentifier<Rest> extends [infer Name extends string, infer AfterName extends string]
+        ? (Char extends ':' ? ReadTypeName<AfterName> : ['', AfterName]) extends [
+            infer TypeName extends string,
+            infer AfterParam extends string,
+          ]
+          ? Name extends ''
+            ? CollectParams<AfterParam, Depth, Required, Optional>
+            : Depth extends []
+              ? CollectParams<AfterParam, Depth, Required | [Name, TypeName], Optional>
+              : CollectParams<AfterParam, Depth, Required, Optional | [Name, TypeName]>
+          : never
+        : never
+      : Char extends '{'
+        ? Rest extends `${string}}${infer AfterEnum}`
+          ? CollectParams<AfterEnum, Depth, Required, Optional>
+          : [Required, Optional]
+        : Char extends '('
+          ? CollectParams<Rest, [...Depth, unknown], Required, Optional>
+          : Char extends ')'
+            ? CollectParams<
+                Rest,
+                Depth extends [unknown, ...infer Outer] ? Outer : [],
+                Required,
+                Optional
+              >
+            : CollectParams<Rest, Depth, Required, Optional>
+  : [Required, Optional];
+
+// Mirrors `parseSearchParam()` in parse.ts
+type SearchParamEntry<Param extends string> = Param extends `${string}=:${infer Value}`
+  ? ReadIdentifier<Value> extends [infer Name extends string, infer AfterName extends string]
+    ? Name extends ''
+      ? never
+      : [Name, ReadTypeName<AfterName>[0]]
+    : never
+  : Param extends `${string}=*${infer Value}`
+    ? ReadIdentifier<Value>[0] extends infer Name extends string
+      ? Name extends ''
+        ? never
+        : [Name, SearchGlob]
+      : never
+    : never;
+
+type CollectSearchParams<
+  S extends string,
+  Required extends ParamEntry = never,
+  Optional extends ParamEntry = never,
+> = S extends ''
+  ? [Required, Optional]
+  : S extends `${infer Param}&${infer Rest}`
+    ? Param extends `(${infer Inner})`
+      ? CollectSearchParams<Rest, Required, Optional | SearchParamEntry<Inner>>
+      : CollectSearchParams<Rest, Required | SearchParamEntry<Param>, Optional>
+    : CollectSearchParams<`${S}&`, Required, Optional>;
+
+/**
+ * The type name of search params that capture all values of a key, since they do not have a type.
+ */
+export type SearchGlob = '*';
+
+/**
+ * The value of a param with the given type name. Search globs capture all values of a key.
+ */
+export type ParamEntryValue<
+  TypeName extends string,
+  T extends ParamValues,
+> = TypeName extends SearchGlob ? Array<string> : ParamTypeValue<TypeName, T>;
+
+/**
+ * A param name and its type name, `''` if the param does not have a type, or `SearchGlob`.
+ */
+export type ParamEntry = [name: string, typeName: string];
+
+/**
+ * The params and globs in a pattern source string, as a tuple of `[required, optional]` unions of
+ * param entries.
+ */
+export type ParamEntries<S extends string> =
+  CollectParams<StripSearch<S>> extends [
+    infer Required extends ParamEntry,
+    infer Optional extends ParamEntry,
+  ]
+    ? CollectSearchParams<SearchOf<S>, Required, Optional>
+    : never;
+
+export type Simplify<T> = { [K in keyof T]: T[K] } & {};
@@ -3,38 +3,243 @@ import { split } from './split.ts';
 export type Ast = {
   protocol?: Part;
   hostname?: Part;
+  port?: Part;
   pathname?: Part;
-  search?: URLSearchParams;
+  search?: Search;
 };
 
 export type Part = Array<Node>;
 
-type Text = { type: 'text'; value: string };
-type Param = { type: 'param'; name?: string };
-type Glob = { type: 'glob'; name?: string };
+export type Search = Array<SearchParam>;
+
+/**
+ * A search param in a pattern. Its value is either literal text, a param that captures the first
+ * value, or a glob that captures all values. Search params without a value only need to be present.
+ */
+export type SearchParam = { key: string; value?: Text | Param | Glob; optional?: true };
+
+export type Text = { type: 'text'; value: string };
+export type Param = { type: 'param'; name?: string; typeName?: string };
+export type Glob = { type: 'glob'; name?: string };
 type Enum = { type: 'enum'; members: Array<string> };
 type Optional = { type: 'optional'; nodes: Array<Node> };
 type Node = Text | Param | Glob | Enum | Optional;
 
-export function parse(source: string) {
-  const { protocol, hostname, pathname, search } = split(source);
+/**
+ * Whether a pathname starts with an optional that starts with a `/`, like `(/:lang)`. The `/` is the
+ * one before the pathname, so the optional matches both `/` and `/en`.
+ */
+export function ownsLeadingSlash(pathname: Part): boolean {
+  const first = pathname[0];
+  if (first?.type !== 'optional') return false;
+  const text = first.nodes[0];
+  return text?.type === 'text' && text.value.startsWith('/');
+}
+
+export type PartName = 'protocol' | 'hostname' | 'port' | 'pathname' | 'search';
+
+export type ParseErrorCode =
+  | 'unmatched-open-brace'
+  | 'unmatched-close-brace'
+  | 'unmatched-open-paren'
+  | 'unmatched-close-paren'
+  | 'optional-across-parts'
+  | 'unmatched-angle-bracket'
+  | 'invalid-param-type'
+  | 'unknown-param-type'
+  | 'dangling-escape'
+  | 'credentials'
+  | 'invalid-search-value'
+  | 'duplicate-param';
+
+const parseErrorMessages: Record<ParseErrorCode, string> = {
+  'unmatched-open-brace': 'unmatched {',
+  'unmatched-close-brace': 'unmatched }',
+  'unmatched-open-paren': 'unmatched (',
+  'unmatched-close-paren': 'unmatched )',
+  'optional-across-parts': 'optionals cannot span URL parts',
+  'unmatched-angle-bracket': 'unmatched <',
+  'invalid-param-type': 'invalid param type',
+  'unknown-param-type': 'unknown param type',
+  'dangling-escape': 'dangling escape',
+  credentials: 'credentials are not allowed',
+  'invalid-search-value': 'invalid search param value',
+  'duplicate-param': 'duplicate param name',
+};
+
+/**
+ * An error thrown when a route pattern is invalid. The message points to the offending character
+ * in the source.
+ */
+export class RoutePatternParseError extends Error {
+  /**
+   * What went wrong.
+   */
+  readonly code: ParseErrorCode;
+  /**
+   * The full source of the pattern.
+   */
+  readonly source: string;
+  /**
+   * The index of the offending character in the source.
+   */
+  readonly offset: number;
+  /**
+   * The part of the URL that the offending character is in.
+   */
+  readonly part: PartName;
+
+  constructor(code: ParseErrorCode, source: string, offset: number, part: PartName) {
+    super(
+      `${parseErrorMessages[code]} at ${offset} in ${part}\n\n` +
+        `  ${source}\n` +
+        `  ${' '.repeat(offset)}^`,
+    );
+    this.name = 'RoutePatternParseError';
+    this.code = code;
+    this.source = source;
+    this.offset = offset;
+    this.part = part;
+  }
+}
+
+/**
+ * @param source The pattern source
+ * @param typeNames The names of the param types that are available, if they should be checked
+ */
+export function parse(source: string, typeNames?: Array<string>) {
+  const { protocol, hostname, port, pathname, search } = split(source);
   const ast: Ast = {};
-  if (protocol) ast.protocol = parsePart(source, protocol);
-  if (hostname) ast.hostname = parsePart(source, hostname);
-  if (pathname) ast.pathname = parsePart(source, pathname);
-  if (search) ast.search = new URLSearchParams(source.slice(...search));
+  // the names of the params and globs so far, which must be unique
+  const names = new Set<string>();
+  if (protocol) {
+    // Optional protocols like `(https://)` are parsed without their `(` and `://)`
+    ast.protocol = source.startsWith('://)', protocol[1] - 4)
+      ? [
+          {
+            type: 'optional',
+            nodes: parsePart(
+              source,
+              [protocol[0] + 1, protocol[1] - 4],
+              'protocol',
+              names,
+              typeNames,
+            ),
+          },
+        ]
+      : parsePart(source, protocol, 'protocol', names, typeNames);
+  }
+  if (hostname) {
+    // Patterns match the host of a URL, so they cannot have credentials
+    const at = source.indexOf('@', hostname[0]);
+    if (at !== -1 && at < hostname[1]) {
+      throw new RoutePatternParseError('credentials', source, at, 'hostname');
+    }
+    ast.hostname = parsePart(source, hostname, 'hostname', names, typeNames);
+  }
+  if (port) {
+    // Optional ports like `(:3000)` are parsed without their `(:` and `)`
+    ast.port =
+      source[port[0]] === '('
+        ? [
+            {
+              type: 'optional',
+              nodes: parsePart(source, [port[0] + 2, port[1] - 1], 'port', names, typeNames),
+            },
+          ]
+        : parsePart(source, port, 'port', names, typeNames);
+  }
+  if (pathname) ast.pathname = parsePart(source, pathname, 'pathname', names, typeNames);
+  if (search) ast.search = parseSearch(source, search, names, typeNames);
   return ast;
 }
 
+function parseSearch(
+  source: string,
+  bounds: [number, number],
+  names: Set<string>,
+  typeNames?: Array<string>,
+) {
+  const search: Search = [];
+
+  let start = bounds[0];
+  while (start < bounds[1]) {
+    let end = source.indexOf('&', start);
+    if (end === -1 || end > bounds[1]) end = bounds[1];
+    if (end > start) search.push(parseSearchParam(source, [start, end], names, typeNames));
+    start = end + 1;
+  }
+
+  return search;
+}
+
+function parseSearchParam(
+  source: string,
+  [start, end]: [number, number],
+  names: Set<string>,
+  typeNames?: Array<string>,
+) {
+  const param: SearchParam = { key: '' };
+
+  // optional
+  if (source[start] === '(') {
+    if (source[end - 1] !== ')') {
+      throw new RoutePatternParseError('unmatched-open-paren', source, start, 'search');
+    }
+    param.optional = true;
+    start += 1;
+    end -= 1;
+  }
+
+  const equals = source.indexOf('=', start);
+  if (equals === -1 || equals >= end) {
+    param.key = decodeSearch(source.slice(start, end));
+    return param;
+  }
+  param.key = decodeSearch(source.slice(start, equals));
+
+  const value = parsePart(source, [equals + 1, end], 'search', names, typeNames);
+  if (value.length === 0) {
+    param.value = { type: 'text', value: '' };
+  } else if (value.length === 1 && value[0].type === 'text') {
+    param.value = { type: 'text', value: decodeSearch(value[0].value) };
+  } else if (value.length === 1 && (value[0].type === 'param' || value[0].type === 'glob')) {
+    param.value = value[0];
+  } else {
+    throw new RoutePatternParseError('invalid-search-value', source, equals + 1, 'search');
+  }
+
+  return param;
+}
+
+function decodeSearch(text: string): string {
+  return new URLSearchParams('_=' + text).get('_')!;
+}
+
 const identifierRE = /^[a-zA-Z_$][a-zA-Z_$0-9]*/;
 
-function parsePart(source: string, bounds: [number, number]) {
+function parsePart(
+  source: string,
+  bounds: [number, number],
+  partName: PartName,
+  names: Set<string>,
+  typeNames?: Array<string>,
+) {
   const part = source.slice(...bounds);
+  const fail = (code: ParseErrorCode, index: number) =>
+    new RoutePatternParseError(code, source, bounds[0] + index, partName);
 
   const ast: Part = [];
-  let optional: { node: Optional; index: number } | null = null;
+  // the optionals that are open, innermost last
+  const optionals: Array<{ node: Optional; index: number }> = [];
 
-  const nodes = () => optional?.node.nodes ?? ast;
+  const addName = (name: string, index: number) => {
+    if (names.has(name)) throw fail('duplicate-param', index);
+    names.add(name);
+    return name;
+  };
+
+  const nodes = () => optionals.at(-1)?.node.nodes ?? ast;
   const appendText = (text: string) => {
     const last = nodes().at(-1);
     if (last?.type !== 'text') {
@@ -53,9 +258,20 @@ function parsePart(source: string, bounds: [number, number]) {
       i += 1;
       const node: Param = { type: 'param' };
       const name = identifierRE.exec(part.slice(i))?.[0];
-      if (name) node.name = name;
+      if (name) node.name = addName(name, i - 1);
       nodes().push(node);
       i += name?.length ?? 0;
+
+      // param type
+      if (part[i] === '<') {
+        const close = part.indexOf('>', i);
+        if (close === -1) throw fail('unmatched-angle-bracket', i);
+        const typeName = part.slice(i + 1, close);
+        if (identifierRE.exec(typeName)?.[0] !== typeName) throw fail('invalid-param-type', i);
+        if (typeNames && !typeNames.includes(typeName)) throw fail('unknown-param-type', i + 1);
+        node.typeName = typeName;
+        i = close + 1;
+      }
       continue;
     }
 
@@ -64,7 +280,7 @@ function parsePart(source: string, bounds: [number, number]) {
       i += 1;
       const node: Glob = { type: 'glob' };
       const name = identifierRE.exec(part.slice(i))?.[0];
-      if (name) node.name = name;
+      if (name) node.name = addName(name, i - 1);
       nodes().push(node);
       i += name?.length ?? 0;
       continue;
@@ -73,27 +289,26 @@ function parsePart(source: string, bounds: [number, number]) {
     // enum
     if (char === '{') {
       const close = part.indexOf('}', i);
-      if (close === -1) throw new Error(`unmatched { at ${i}`);
+      if (close === -1) throw fail('unmatched-open-brace', i);
       const members = part.slice(i + 1, close).split(',');
       nodes().push({ type: 'enum', members });
       i = close + 1;
       continue;
     }
     if (char === '}') {
-      throw new Error(`unmatched } at ${i}`);
+      throw fail('unmatched-close-brace', i);
     }
 
     // optional
     if (char === '(') {
-      if (optional) throw new Error(`nested ( at ${optional.index} ${i}`);
-      optional = { node: { type: 'optional', nodes: [] }, index: i };
+      optionals.push({ node: { type: 'optional', nodes: [] }, index: i });
       i += 1;
       continue;
     }
     if (char === ')') {
-      if (!optional) throw new Error(`unmatched ) at ${i}`);
-      ast.push(optional.node);
-      optional = null;
+      const optional = optionals.pop();
+      if (!optional) throw fail('unmatched-close-paren', i);
+      nodes().push(optional.node);
       i += 1;
       continue;
     }
@@ -101,7 +316,7 @@ function parsePart(source: string, bounds: [number, number]) {
     // text
     if (char === '\\') {
       const next = part.at(i + 1);
-      if (!next) throw new Error(`dangling escape at ${i}`);
+      if (!next) throw fail('dangling-escape', i);
       appendText(next);
       i += 2;
       continue;
@@ -109,6 +324,14 @@ function parsePart(source: string, bounds: [number, number]) {
     appendText(char);
     i += 1;
   }
-  if (optional) throw new Error(`unmatched ( at ${optional.index}`);
+  const unclosed = optionals.at(-1);
+  if (unclosed) {
+    // e.g. `://example(.com/:lang)`, where the optional starts in the hostname and ends in the
+    // pathname. Each part of a URL is matched on its own, so apart from optional protocols like
+    // `(https://)` and optionals that start with the `/` before the pathname like `(/:lang)`, an
+    // optional must be within one part.
+    const closedLater = partName !== 'search' && source.indexOf(')', bounds[1]) !== -1;
+    throw fail(closedLater ? 'optional-across-parts' : 'unmatched-open-paren', unclosed.index);
+  }
   return ast;
 }
@@ -0,0 +1,171 @@
+import * as assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+
+import { RequestPattern } from './request-pattern.ts';
+import { RoutePattern } from './route-pattern.ts';
+
+function request(url: string, init?: RequestInit) {
+  return new Request(new URL(url, 'https://example.com'), init);
+}
+
+describe('RequestPattern', () => {
+  it('accepts strings and RoutePatterns', () => {
+    const routePattern = new RoutePattern('users/:id');
+    assert.equal(new RequestPattern(routePattern).pattern, routePattern);
+    assert.equal(new RequestPattern('users/:id').pattern.source, 'users/:id');
+  });
+
+  it('creates string patterns with the pattern options', () => {
+    const pattern = new RequestPattern('Users/:id<int>', { ignoreCase: true, method: 'GET' });
+    assert.deepEqual(pattern.match(request('/users/1')), { params: { id: 1 } });
+  });
+
+  it('returns null when the URL does not match', () => {
+    const pattern = new RequestPattern('users/:id', { method: 'POST' });
+    assert.equal(pattern.match(request('/posts/1')), null);
+  });
+
+  it('matches any method by default', () => {
+    const pattern = new RequestPattern('users/:id');
+    assert.equal(pattern.methods, undefined);
+    assert.deepEqual(pattern.match(request('/users/1', { method: 'DELETE' })), {
+      params: { id: '1' },
+    });
+  });
+
+  describe('method', () => {
+    const methodTests = [
+      { name: 'matches a single method', method: 'POST', input: 'POST', allow: null },
+      { name: 'matches methods case-insensitively', method: 'post', input: 'POST', allow: null },
+      { name: 'matches method sets', method: ['PUT', 'PATCH'], input: 'PATCH', allow: null },
+      { name: 'matches HEAD when GET is allowed', method: 'GET', input: 'HEAD', allow: null },
+      {
+        name: 'fails with the allowed methods',
+        method: ['PUT', 'PATCH'],
+        input: 'POST',
+        allow: ['PUT', 'PATCH'],
+      },
+      {
+        name: 'includes HEAD in the allowed methods',
+        method: 'GET',
+        input: 'DELETE',
+        allow: ['GET', 'HEAD'],
+      },
+    ];
+
+    methodTests.forEach(({ name, method, input, allow }) => {
+      it(name, () => {
+        const pattern = new RequestPattern('users/:id', { method });
+        const result = pattern.match(request('/users/1', { method: input }));
+        assert.deepEqual(
+          result,
+          allow ? { failed: { type: 'method', allow } } : { params: { id: '1' } },
+        );
+      });
+    });
+  });
+
+  describe('contentType', () => {
+    const contentTypeTests = [
+      { contentType: 'application/json', expected: true },
+      { contentType: 'application/json; charset=utf-8', expected: true },
+      { contentType: 'text/plain', expected: true },
+      { contentType: 'application/xml', expected: false },
+      { contentType: null, expected: false },
+    ];
+
+    contentTypeTests.forEach(({ contentType, expected }) => {
+      it(`${expected ? 'matches' : 'fails for'} Content-Type ${contentType}`, () => {
+        const pattern = new RequestPattern('users', {
+          method: 'POST',
+          contentType: ['application/json', 'text/*'],
+        });
+        const headers: Record<string, string> = contentType ? { 'Content-Type': contentType } : {};
+        const result = pattern.match(
+          request('/users', { method: 'POST', headers, body: contentType && '' }),
+        );
+        assert.deepEqual(
+          result,
+          expected
+            ? { params: {} }
+            : { failed: { type: 'content-type', mediaTypes: ['application/json', 'text/*'] } },
+        );
+      });
+    });
+  });
+
+  describe('accept', () => {
+    const acceptTests = [
+      { accept: 'text/html', expected: 'text/html' },
+      { accept: 'application/json', expected: 'application/json' },
+      { accept: 'application/json;q=0.5, text/html', expected: 'text/html' },
+      { accept: 'text/*', expected: 'text/html' },
+      { accept: '*/*', expected: 'text/html' },
+      { accept: null, expected: 'text/html' },
+      { accept: 'image/png', expected: null },
+      { accept: 'text/html;q=0', expected: null },
+    ];
+
+    acceptTests.forEach(({ accept, expected }) => {
+      it(`negotiates ${expected} for Accept ${accept}`, () => {
+        const pattern = new RequestPattern('users/:id', {
+          accept: ['text/html', 'application/json'],
+        });
+        const headers: Record<string, string> = accept ? { Accept: accept } : {};
+        assert.deepEqual(
+          pattern.match(request('/users/1', { headers })),
+          expected
+            ? { params: { id: '1' }, mediaType: expected }
+            : { failed: { type: 'accept', mediaTypes: ['text/html', 'application/json'] } },
+        );
+      });
+    });
+  });
+
+  describe('headers', () => {
+    it('matches header values exactly', () => {
+      const pattern = new RequestPattern('api', { headers: { 'X-Api-Version': '2' } });
+      const headers = { 'X-Api-Version': '2' };
+      assert.deepEqual(pattern.match(request('/api', { headers })), { params: {} });
+      assert.deepEqual(pattern.match(request('/api')), {
+        failed: { type: 'header', name: 'X-Api-Version' },
+      });
+    });
+
+    it('matches header predicates', () => {
+      const pattern = new RequestPattern('api', {
+        headers: { Authorization: (value) => value?.startsWith('Bearer ') ?? false },
+      });
+      const headers = { Authorization: 'Bearer token' };
+      assert.deepEqual(pattern.match(request('/api', { headers })), { params: {} });
+      assert.deepEqual(pattern.match(request('/api', { headers: { Authorization: 'Basic x' } })), {
+        failed: { type: 'header', name: 'Authorization' },
+      });
+    });
+  });
+
+  it('checks the method before the headers', () => {
+    const pattern = new RequestPattern('users', {
+      method: 'POST',
+      contentType: ['application/json'],
+      accept: ['application/json'],
+    });
+    const headers = { 'Content-Type': 'text/plain', Accept: 'text/html' };
+
+    assert.equal(pattern.match(request('/users', { headers }))?.failed?.type, 'method');
+    assert.equal(
+      pattern.match(request('/users', { method: 'POST', headers, body: '' }))?.failed?.type,
+      'content-type',
+    );
+    assert.equal(
+      pattern.match(
+        request('/users', {
+          method: 'POST',
+          headers: { ...headers, 'Content-Type': 'application/json' },
+          body: '',
+        }),
+      )?.failed?.type,
+      'accept',
+    );
+  });
+});
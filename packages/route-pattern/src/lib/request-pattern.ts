@@ -0,0 +1,140 @@
+import { Accept, ContentType } from '@mjackson/headers';
+
+import type { ParamValues } from './param-types.ts';
+import { RoutePattern, type Match, type RoutePatternOptions } from './route-pattern.ts';
+
+/**
+ * A predicate for the value of a request header. Strings must match the value exactly, and
+ * functions receive the value or `null` if the header is missing.
+ */
+export type HeaderPredicate = string | ((value: string | null) => boolean);
+
+export interface RequestPatternOptions<T extends ParamValues = {}> extends RoutePatternOptions<T> {
+  /**
+   * The request methods to match. `HEAD` requests are matched when `GET` is allowed. Defaults to
+   * all methods.
+   */
+  method?: string | Array<string>;
+  /**
+   * The media types the route can respond with. The request's `Accept` header must accept one of
+   * them, and the match has the one it prefers.
+   */
+  accept?: Array<string>;
+  /**
+   * The media types the route can read, e.g. `application/json`. The request's `Content-Type`
+   * must be one of them. Wildcards like `text/*` are supported.
+   */
+  contentType?: Array<string>;
+  /**
+   * Predicates for other request headers, by header name.
+   */
+  headers?: Record<string, HeaderPredicate>;
+}
+
+/**
+ * The constraint that a request failed after its URL matched.
+ *
+ * - `method`: respond with `405 Method Not Allowed` and an `Allow` header of the `allow` methods
+ * - `content-type`: respond with `415 Unsupported Media Type`
+ * - `accept`: respond with `406 Not Acceptable`
+ * - `header`: a header predicate failed for the header with the given `name`
+ */
+export type FailedConstraint =
+  | { type: 'method'; allow: Array<string> }
+  | { type: 'content-type'; mediaTypes: Array<string> }
+  | { type: 'accept'; mediaTypes: Array<string> }
+  | { type: 'header'; name: string };
+
+export type RequestMatch<S extends string = string, T extends ParamValues = {}> = Match<S, T> & {
+  /**
+   * The media type from the `accept` option that the request prefers.
+   */
+  mediaType?: string;
+  failed?: undefined;
+};
+
+/**
+ * The result of a request whose URL matched but that failed one of the other constraints.
+ */
+export type RequestMismatch = {
+  failed: FailedConstraint;
+};
+
+/**
+ * A route pattern with constraints on the request method and headers. The URL is matched first,
+ * then the method, then the `Content-Type` and `Accept` headers, then any other headers, so the
+ * first constraint that fails tells you which error to respond with.
+ */
+export class RequestPattern<S extends string = string, T extends ParamValues = {}> {
+  readonly pattern: RoutePattern<S, T>;
+
+  private readonly _methods: Array<string> | undefined;
+  private readonly _accept: Array<string> | undefined;
+  private readonly _contentType: Array<string> | undefined;
+  private readonly _headers: Array<[name: string, predicate: HeaderPredicate]>;
+
+  /**
+   * @param pattern The pattern for the URL. Pattern options only apply to pattern strings
+   * @param options Options for the pattern and constraints on the request
+   */
+  constructor(pattern: S | RoutePattern<S, T>, options?: RequestPatternOptions<T>) {
+    this.pattern = typeof pattern === 'string' ? new RoutePattern(pattern, options) : pattern;
+
+    const method = options?.method;
+    if (method !== undefined) {
+      const methods = (Array.isArray(method) ? method : [method]).map((name) => name.toUpperCase());
+      if (methods.includes('GET') && !methods.includes('HEAD')) methods.push('HEAD');
+      this._methods = methods;
+    }
+    this._accept = options?.accept;
+    this._contentType = options?.contentType;
+    this._headers = Object.entries(options?.headers ?? {});
+  }
+
+  /**
+   * The methods this pattern matches, or `undefined` if it matches all methods.
+   */
+  get methods(): Array<string> | undefined {
+    return this._methods?.slice();
+  }
+
+  /**
+   * Matches a request against the pattern and its constraints.
+   * @param request The request to match
+   * @returns The match, a mismatch with the constraint that failed if only the URL matched, or
+   * `null` if the URL does not match
+   */
+  match(request: Request): RequestMatch<S, T> | RequestMismatch | null {
+    const match = this.pattern.match(request.url);
+    if (!match) return null;
+
+    if (this._methods && !this._methods.includes(request.method.toUpperCase())) {
+      return { failed: { type: 'method', allow: this._methods.slice() } };
+    }
+
+    if (this._contentType) {
+      const mediaType = new ContentType(request.headers.get('Content-Type') ?? '').mediaType;
+      const accept = new Accept(this._contentType);
+      if (!mediaType || !accept.accepts(mediaType)) {
+        return { failed: { type: 'content-type', mediaTypes: this._contentType.slice() } };
+      }
+    }
+
+    let mediaType: string | undefined;
+    if (this._accept) {
+      const header = request.headers.get('Accept');
+      // Requests without an `Accept` header accept anything
+      const preferred = header ? new Accept(header).getPreferred(this._accept) : this._accept[0];
+      if (!preferred) return { failed: { type: 'accept', mediaTypes: this._accept.slice() } };
+      mediaType = preferred;
+    }
+
+    for (const [name, predicate] of this._headers) {
+      const value = request.headers.get(name);
+      const ok = typeof predicate === 'string' ? value === predicate : predicate(value);
+      if (!ok) return { failed: { type: 'header', name } };
+    }
+
+    return mediaType === undefined ? match : { ...match, mediaType };
+  }
+}
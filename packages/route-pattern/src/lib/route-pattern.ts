@@ -1,46 +1,283 @@
-import { parse, type Ast, type Part } from './parse.ts';
+import { buildHref, type HrefArgs, type HrefParams } from './href.ts';
+import { joinSources, type JoinSources } from './join.ts';
+import {
+  resolveParamTypes,
+  type AnyParamTypeValue,
+  type ParamType,
+  type ParamTypes,
+  type ParamValues,
+} from './param-types.ts';
+import type { ParamEntries, ParamEntry, ParamEntryValue, Simplify } from './params.ts';
+import { ownsLeadingSlash, parse, type Ast, type Part, type SearchParam } from './parse.ts';
+import { stringify } from './stringify.ts';
 
-type Params = Record<string, string | undefined>;
-type Match = { params: Params };
+/**
+ * The params of a pattern match. When the pattern source is a string literal, the param names
+ * are inferred from it, params with a type have that type's value, and params inside optionals may
+ * be `undefined`.
+ */
+export type Params<S extends string = string, T extends ParamValues = {}> = string extends S
+  ? Record<string, string | Array<string> | undefined | AnyParamTypeValue<T>>
+  : ParamEntries<S> extends [infer Required extends ParamEntry, infer Optional extends ParamEntry]
+    ? Simplify<
+        { [E in Required as E[0]]: ParamEntryValue<E[1], T> } & {
+          [E in Optional as E[0]]?: ParamEntryValue<E[1], T>;
+        }
+      >
+    : never;
+
+export type Match<S extends string = string, T extends ParamValues = {}> = {
+  params: Params<S, T>;
+  /**
+   * The URL to redirect to when the URL only matched after adding or removing a trailing slash
+   * and the pattern's `trailingSlash` option is `redirect`.
+   */
+  redirect?: string;
+};
 
-export class RoutePattern {
-  readonly source: string;
+/**
+ * How a pattern treats a trailing slash that doesn't match the pattern.
+ *
+ * - `strict`: `/about/` does not match `about`, and `/about` does not match `about/`
+ * - `ignore`: URLs match with or without the trailing slash
+ * - `redirect`: like `ignore`, but the match has a `redirect` to the URL with the pattern's slash
+ */
+export type TrailingSlash = 'strict' | 'ignore' | 'redirect';
+
+export interface RoutePatternOptions<T extends ParamValues = {}> {
+  /**
+   * Custom param types, in addition to the built-in `int` and `uuid` types. Use them in a pattern
+   * like `:name<type>`.
+   */
+  types?: ParamTypes<T>;
+  /**
+   * Match the pathname case-insensitively. Params keep the case they have in the URL. Defaults to
+   * `false`.
+   */
+  ignoreCase?: boolean;
+  /**
+   * How to treat a trailing slash that doesn't match the pattern. Defaults to `strict`.
+   */
+  trailingSlash?: TrailingSlash;
+  /**
+   * Percent-decode the values of params and globs in the pathname, e.g. `caf%C3%A9` becomes
+   * `café`. Values that are not valid percent-encoding are left as-is. Defaults to `false`.
+   */
+  decode?: boolean;
+}
 
+export class RoutePattern<S extends string = string, T extends ParamValues = {}> {
+  readonly source: S;
+  readonly trailingSlash: TrailingSlash;
+
+  private readonly _options: RoutePatternOptions<T> | undefined;
   private readonly _ast: Ast;
+  private readonly _decode: boolean;
+  private readonly _types: ParamTypes;
+  private readonly _paramTypes: Array<[name: string, type: ParamType]>;
+  private readonly _protocolRE: RegExp;
+  private readonly _hostnameRE: RegExp;
+  private readonly _portRE: RegExp;
+  private readonly _pathnameRE: RegExp;
+  private readonly _ownsLeadingSlash: boolean;
+  private readonly _search: Array<CompiledSearchParam>;
 
-  constructor(source: string) {
+  constructor(source: S, options?: RoutePatternOptions<T>) {
     this.source = source;
-    this._ast = parse(source);
+    this._options = options;
+    this.trailingSlash = options?.trailingSlash ?? 'strict';
+    this._decode = options?.decode ?? false;
+    this._types = resolveParamTypes(options?.types);
+    this._ast = parse(source, Object.keys(this._types));
+    this._paramTypes = [];
+    for (const part of [
+      this._ast.protocol,
+      this._ast.hostname,
+      this._ast.port,
+      this._ast.pathname,
+    ]) {
+      if (part) collectParamTypes(part, this._types, this._paramTypes);
+    }
+    this._protocolRE = protocolToRegExp(this._ast.protocol, this._types);
+    this._hostnameRE =
+      partToRegExp(this._ast.hostname, { param: /[^.]+/, types: this._types }) ?? /^.*$/;
+    this._portRE = partToRegExp(this._ast.port, { param: /\d+/, types: this._types }) ?? /^.*$/;
+    this._pathnameRE =
+      partToRegExp(this._ast.pathname, {
+        param: /[^/]+/,
+        types: this._types,
+        ignoreCase: options?.ignoreCase,
+      }) ?? /^$/;
+    this._ownsLeadingSlash = this._ast.pathname ? ownsLeadingSlash(this._ast.pathname) : false;
+    this._search = (this._ast.search ?? []).map((param) => compileSearchParam(param, this._types));
   }
 
-  match(url: URL | string): Match | null {
+  match(url: URL | string): Match<S, T> | null {
     if (typeof url === 'string') url = new URL(url);
 
-    const protocolRE = partToRegExp(this._ast.protocol, { param: /.*/ }) ?? /^.*$/;
-    const hostnameRE = partToRegExp(this._ast.hostname, { param: /[^.]+/ }) ?? /^.*$/;
-    const pathnameRE = partToRegExp(this._ast.pathname, { param: /[^/]+/ }) ?? /^$/;
-
-    const params: Params = {};
+    const params: Record<string, unknown> = {};
 
-    const protocolMatch = protocolRE.exec(url.protocol.slice(0, -1));
+    const protocolMatch = this._protocolRE.exec(url.protocol.slice(0, -1));
     if (!protocolMatch) return null;
     Object.assign(params, protocolMatch.groups ?? {});
 
-    const hostnameMatch = hostnameRE.exec(url.hostname);
+    const hostnameMatch = this._hostnameRE.exec(url.hostname);
     if (!hostnameMatch) return null;
     Object.assign(params, hostnameMatch.groups ?? {});
 
-    const pathnameMatch = pathnameRE.exec(url.pathname.slice(1));
+    // Credentials in the URL are ignored. Default ports are left out of `url.port`, so fill them in
+    // to let patterns like `http://localhost:80` match `http://localhost/`, unless the pattern
+    // matches the URL without a port, like `localhost(:3000)`.
+    const portMatch =
+      this._portRE.exec(url.port) ??
+      (url.port === '' ? this._portRE.exec(defaultPorts[url.protocol] ?? '') : null);
+    if (!portMatch) return null;
+    Object.assign(params, portMatch.groups ?? {});
+
+    const pathnameMatch = this._matchPathname(url.pathname.slice(1));
     if (!pathnameMatch) return null;
-    Object.assign(params, pathnameMatch.groups ?? {});
+    for (const [name, value] of Object.entries(pathnameMatch.match.groups ?? {})) {
+      params[name] = this._decode && value !== undefined ? decodeValue(value) : value;
+    }
 
-    if (this._ast.search) {
-      for (const [key, value] of this._ast.search?.entries()) {
-        if (!url.searchParams.getAll(key).includes(value)) return null;
-      }
+    for (const [name, type] of this._paramTypes) {
+      if (params[name] !== undefined) params[name] = type.parse(params[name] as string);
+    }
+
+    for (const search of this._search) {
+      if (!matchSearchParam(search, url.searchParams, params)) return null;
+    }
+
+    if (pathnameMatch.pathname !== undefined && this.trailingSlash === 'redirect') {
+      const redirect = new URL(url);
+      redirect.pathname = '/' + pathnameMatch.pathname;
+      return { params, redirect: redirect.href } as Match<S, T>;
     }
 
-    return { params };
+    return { params } as Match<S, T>;
+  }
+
+  // Returns the pathname that matched when it differs from the URL by a trailing slash
+  private _matchPathname(pathname: string): { match: RegExpExecArray; pathname?: string } | null {
+    const match = this._execPathname(pathname);
+    if (match) return { match };
+    if (this.trailingSlash === 'strict' || pathname === '') return null;
+
+    const other = pathname.endsWith('/') ? pathname.slice(0, -1) : pathname + '/';
+    const otherMatch = this._execPathname(other);
+    return otherMatch ? { match: otherMatch, pathname: other } : null;
+  }
+
+  // Pathnames like `(/:lang)` are matched with their leading `/`, unless the pathname is just `/`
+  private _execPathname(pathname: string): RegExpExecArray | null {
+    if (this._ownsLeadingSlash && pathname !== '') pathname = '/' + pathname;
+    return this._pathnameRE.exec(pathname);
+  }
+
+  /**
+   * Builds a URL from this pattern. Enums use their first member and optionals are only included
+   * when all of their params have values.
+   * @param params Values for the params and globs in the pattern
+   * @param search Extra search params to append to the URL
+   * @returns The URL, or just the pathname and search if the pattern does not have a hostname
+   */
+  href(...[params, search]: HrefArgs<S, T>): string {
+    return buildHref(this._ast, this._types, (params ?? {}) as HrefParams, search);
+  }
+
+  /**
+   * Creates a pattern from an AST that was serialized with `toJSON()`.
+   * @param ast The AST of the pattern
+   * @param options Options for the pattern
+   * @returns A new pattern whose source is the normalized source of the AST
+   */
+  static fromJSON<T extends ParamValues = {}>(
+    ast: Ast,
+    options?: RoutePatternOptions<T>,
+  ): RoutePattern<string, T> {
+    return new RoutePattern(stringify(ast), options);
+  }
+
+  /**
+   * @returns The AST of this pattern, for serializing with `JSON.stringify()`
+   */
+  toJSON(): Ast {
+    return structuredClone(this._ast);
+  }
+
+  /**
+   * @returns The normalized source of this pattern, with canonical escapes and search params
+   * sorted by key
+   */
+  toString(): string {
+    return stringify(this._ast);
+  }
+
+  /**
+   * Joins a child pattern to this pattern, e.g. to mount a module's routes under `admin/` or a
+   * hostname like `://:tenant.example.com`. The joined pattern uses this pattern's options.
+   * @param child The pattern to join, relative to this one
+   * @returns A new pattern with the params of both patterns
+   */
+  join<C extends string>(child: C | RoutePattern<C, T>): RoutePattern<JoinSources<S, C>, T> {
+    const source = joinSources(this.source, typeof child === 'string' ? child : child.source);
+    return new RoutePattern(source as JoinSources<S, C>, this._options);
+  }
+}
+
+type CompiledSearchParam = { param: SearchParam; type?: ParamType; valueRE?: RegExp };
+
+function compileSearchParam(param: SearchParam, types: ParamTypes): CompiledSearchParam {
+  const { value } = param;
+  if (value?.type !== 'param' || value.typeName === undefined) return { param };
+
+  const type = types[value.typeName];
+  return { param, type, valueRE: new RegExp(`^(?:${type.pattern.source})$`) };
+}
+
+function matchSearchParam(
+  { param, type, valueRE }: CompiledSearchParam,
+  searchParams: URLSearchParams,
+  params: Record<string, unknown>,
+): boolean {
+  const { value } = param;
+  const values = searchParams.getAll(param.key);
+
+  if (values.length === 0) {
+    if (!param.optional) return false;
+    if (value && value.type !== 'text' && value.name) params[value.name] = undefined;
+    return true;
+  }
+
+  // presence only
+  if (!value) return true;
+
+  if (value.type === 'text') return values.includes(value.value);
+
+  // params capture the first value
+  if (value.type === 'param') {
+    if (valueRE && !valueRE.test(values[0])) return false;
+    if (value.name) params[value.name] = type ? type.parse(values[0]) : values[0];
+    return true;
+  }
+
+  // globs capture all values
+  if (value.name) params[value.name] = values;
+  return true;
+}
+
+const defaultPorts: Record<string, string> = {
+  'http:': '80',
+  'https:': '443',
+  'ws:': '80',
+  'wss:': '443',
+};
+
+function decodeValue(value: string): string {
+  try {
+    return decodeURIComponent(value);
+  } catch {
+    return value;
   }
 }
 
@@ -48,13 +285,38 @@ function regexpEscape(text: string): string {
   return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
 }
 
-function partToRegExp(part: Part | undefined, options: { param: RegExp }) {
+function collectParamTypes(
+  part: Part,
+  types: ParamTypes,
+  result: Array<[name: string, type: ParamType]>,
+) {
+  for (const node of part) {
+    if (node.type === 'param' && node.typeName !== undefined) {
+      if (node.name) result.push([node.name, types[node.typeName]]);
+    }
+    if (node.type === 'optional') collectParamTypes(node.nodes, types, result);
+  }
+}
+
+// An optional protocol like `(https://)` matches any protocol when the URL doesn't match it, just
+// like a pattern without a protocol
+function protocolToRegExp(part: Part | undefined, types: ParamTypes): RegExp {
+  if (part?.length === 1 && part[0].type === 'optional') {
+    return new RegExp(`^(?:${partToRegExpSource(part[0].nodes, /.*/, types)}|.*)$`);
+  }
+  return partToRegExp(part, { param: /.*/, types }) ?? /^.*$/;
+}
+
+function partToRegExp(
+  part: Part | undefined,
+  options: { param: RegExp; types: ParamTypes; ignoreCase?: boolean },
+) {
   if (part === undefined) return undefined;
-  const source = partToRegExpSource(part, options.param);
-  return new RegExp('^' + source + '$');
+  const source = partToRegExpSource(part, options.param, options.types);
+  return new RegExp('^' + source + '$', options.ignoreCase ? 'i' : '');
 }
 
-function partToRegExpSource(part: Part, paramRegExp: RegExp) {
+function partToRegExpSource(part: Part, paramRegExp: RegExp, types: ParamTypes) {
   const source: string = part
     .map((node) => {
       if (node.type === 'param') {
@@ -62,7 +324,10 @@ function partToRegExpSource(part: Part, paramRegExp: RegExp) {
         if (node.name) {
           source += `?<${node.name}>`;
         }
-        source += paramRegExp.source;
+        source +=
+          node.typeName === undefined
+            ? paramRegExp.source
+            : `(?:${types[node.typeName].pattern.source})`;
         source += ')';
         return source;
       }
@@ -75,7 +340,7 @@ function partToRegExpSource(part: Part, paramRegExp: RegExp) {
         return source;
       }
       if (node.type === 'optional') {
-        return `(?:${partToRegExpSource(node.nodes, paramRegExp)})?`;
+        return `(?:${partToRegExpSource(node.nodes, paramRegExp, types)})?`;
       }
       if (node.type === 'text') {
         return regexpEscape(node.value);
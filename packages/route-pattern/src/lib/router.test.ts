@@ -0,0 +1,175 @@
+import * as assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+
+import { RoutePattern } from './route-pattern.ts';
+import { Router } from './router.ts';
+
+describe('Router', () => {
+  it('accepts strings and RoutePatterns', () => {
+    const pattern = new RoutePattern('posts/:id');
+    const router = new Router<string>().add('users/:id', 'user').add(pattern, 'post');
+
+    assert.equal(router.size, 2);
+    assert.equal(router.match('https://example.com/posts/1')?.pattern, pattern);
+  });
+
+  it('returns null when no route matches', () => {
+    const router = new Router<string>().add('users/:id', 'user');
+    assert.equal(router.match('https://example.com/posts/1'), null);
+  });
+
+  it('returns the handler and params of the match', () => {
+    const router = new Router<string>().add('users/:id', 'user');
+    const match = router.match('https://example.com/users/123');
+    assert.equal(match?.handler, 'user');
+    assert.deepEqual(match?.params, { id: '123' });
+  });
+
+  it('creates string patterns with the router options', () => {
+    const router = new Router<string, { hex: number }>({
+      types: { hex: { pattern: /[0-9a-f]+/, parse: (value) => parseInt(value, 16) } },
+    }).add('colors/:value<hex>', 'color');
+
+    assert.deepEqual(router.match('https://example.com/colors/ff')?.params, { value: 255 });
+  });
+
+  describe('ranking', () => {
+    const rankingTests = [
+      {
+        name: 'prefers static text over params',
+        patterns: ['users/:id', 'users/new'],
+        input: 'https://example.com/users/new',
+        expected: 'users/new',
+      },
+      {
+        name: 'prefers params over globs',
+        patterns: ['files/*path', 'files/:name'],
+        input: 'https://example.com/files/readme.md',
+        expected: 'files/:name',
+      },
+      {
+        name: 'prefers fewer params',
+        patterns: [':a/:b', 'users/:id'],
+        input: 'https://example.com/users/123',
+        expected: 'users/:id',
+      },
+      {
+        name: 'prefers fewer optionals',
+        patterns: ['api(/v:version)/users', 'api/users'],
+        input: 'https://example.com/api/users',
+        expected: 'api/users',
+      },
+      {
+        name: 'prefers static text over enums',
+        patterns: ['{api,admin}/users', 'api/users'],
+        input: 'https://example.com/api/users',
+        expected: 'api/users',
+      },
+      {
+        name: 'prefers more static text',
+        patterns: ['://:sub.example.com/users', '://:sub.example.com/users/all'],
+        input: 'https://www.example.com/users/all',
+        expected: '://:sub.example.com/users/all',
+      },
+      {
+        name: 'prefers patterns with a hostname',
+        patterns: ['users/:id', '://example.com/users/:id'],
+        input: 'https://example.com/users/123',
+        expected: '://example.com/users/:id',
+      },
+      {
+        name: 'prefers more required search params',
+        patterns: ['search', 'search?q=:query', 'search?(page=:page)'],
+        input: 'https://example.com/search?q=remix',
+        expected: 'search?q=:query',
+      },
+      {
+        name: 'compares segments from the left before counting params',
+        patterns: [':a/:b/:c', 'files/*path'],
+        input: 'https://example.com/files/x/y',
+        expected: 'files/*path',
+      },
+      {
+        name: 'prefers static text in an earlier segment',
+        patterns: [':lang/about', 'docs/:page'],
+        input: 'https://example.com/docs/about',
+        expected: 'docs/:page',
+      },
+      {
+        name: 'ranks segments in optionals as if they were there',
+        patterns: ['api(/v:version)/users', 'api/:section/users'],
+        input: 'https://example.com/api/v2/users',
+        expected: 'api/:section/users',
+      },
+      {
+        name: 'keeps insertion order for equally specific patterns',
+        patterns: ['users/:id', 'users/:name'],
+        input: 'https://example.com/users/123',
+        expected: 'users/:id',
+      },
+    ];
+
+    rankingTests.forEach(({ name, patterns, input, expected }) => {
+      it(name, () => {
+        const router = new Router<string>();
+        for (const pattern of patterns) router.add(pattern, pattern);
+        assert.equal(router.match(input)?.handler, expected);
+      });
+    });
+  });
+
+  describe('matchAll', () => {
+    it('returns all matches, most specific first', () => {
+      const router = new Router<string>()
+        .add('*', 'catch-all')
+        .add('users/:id', 'user')
+        .add('users/new', 'new-user');
+
+      const matches = router.matchAll('https://example.com/users/new');
+      assert.deepEqual(
+        matches.map((match) => match.handler),
+        ['new-user', 'user', 'catch-all'],
+      );
+    });
+
+    it('returns an empty array when no route matches', () => {
+      const router = new Router<string>().add('users/:id', 'user');
+      assert.deepEqual(router.matchAll('https://example.com/posts'), []);
+    });
+  });
+
+  describe('options', () => {
+    it('finds routes that ignore case', () => {
+      const router = new Router<string>({ ignoreCase: true }).add('Users/New', 'new-user');
+      assert.equal(router.match('https://example.com/users/new')?.handler, 'new-user');
+    });
+
+    it('finds routes that ignore trailing slashes', () => {
+      const router = new Router<string>({ trailingSlash: 'ignore' })
+        .add('users/new', 'new-user')
+        .add('docs/', 'docs');
+
+      assert.equal(router.match('https://example.com/users/new/')?.handler, 'new-user');
+      assert.equal(router.match('https://example.com/docs')?.handler, 'docs');
+    });
+
+    it('returns redirects for routes that suggest them', () => {
+      const router = new Router<string>({ trailingSlash: 'redirect' }).add('users/new', 'new-user');
+      assert.deepEqual(router.match('https://example.com/users/new/'), {
+        pattern: router.match('https://example.com/users/new')?.pattern,
+        handler: 'new-user',
+        params: {},
+        redirect: 'https://example.com/users/new',
+      });
+    });
+
+    it('keeps trailing slashes strict for other routes', () => {
+      const router = new Router<string>()
+        .add(new RoutePattern('users/new', { trailingSlash: 'ignore' }), 'new-user')
+        .add('about', 'about');
+
+      assert.equal(router.match('https://example.com/users/new/')?.handler, 'new-user');
+      assert.equal(router.match('https://example.com/about/'), null);
+    });
+  });
+});
@@ -0,0 +1,147 @@
+import type { ParamValues } from './param-types.ts';
+import { parse } from './parse.ts';
+import {
+  RoutePattern,
+  type Match,
+  type Params,
+  type RoutePatternOptions,
+} from './route-pattern.ts';
+import { compareSpecificity, specificity, type Specificity } from './specificity.ts';
+import { RouteTrie } from './trie.ts';
+
+export type RouteMatch<T, P extends ParamValues = {}> = {
+  pattern: RoutePattern<string, P>;
+  handler: T;
+  params: Params<string, P>;
+  /**
+   * The URL to redirect to when the pattern's `trailingSlash` option is `redirect` and the URL
+   * only matched after adding or removing a trailing slash.
+   */
+  redirect?: string;
+};
+
+export type RouterOptions<P extends ParamValues = {}> = RoutePatternOptions<P>;
+
+type Route<T, P extends ParamValues> = {
+  id: number;
+  pattern: RoutePattern<string, P>;
+  handler: T;
+  specificity: Specificity;
+};
+
+/**
+ * A table of route patterns and their handlers. When a URL matches more than one pattern, the
+ * most specific pattern wins: pathname segments are compared from the left, where static text
+ * beats params and params beat globs, and then patterns with fewer optionals beat patterns with
+ * more. Ties go to the route that was added first.
+ *
+ * Routes are indexed in a trie by the static segments at the start of their pathname, so matching
+ * only tests the patterns that share a prefix with the URL instead of every pattern in the router.
+ */
+export class Router<T, P extends ParamValues = {}> {
+  private readonly _options: RouterOptions<P> | undefined;
+  private readonly _trie = new RouteTrie<Route<T, P>>();
+  private _size = 0;
+  // Whether any route matches URLs with or without a trailing slash
+  private _trailingSlash = false;
+
+  /**
+   * @param options Options for the patterns that are added to the router as strings
+   */
+  constructor(options?: RouterOptions<P>) {
+    this._options = options;
+  }
+
+  /**
+   * Adds a route to the router.
+   * @param pattern The pattern to match
+   * @param handler The handler to return when the pattern is the best match
+   * @returns The router, for chaining
+   */
+  add(pattern: string | RoutePattern<string, P>, handler: T): this {
+    if (typeof pattern === 'string') pattern = new RoutePattern(pattern, this._options);
+
+    const ast = parse(pattern.source);
+    this._trie.insert(ast, {
+      id: this._size++,
+      pattern,
+      handler,
+      specificity: specificity(ast),
+    });
+    if (pattern.trailingSlash !== 'strict') this._trailingSlash = true;
+
+    return this;
+  }
+
+  /**
+   * The number of routes in the router.
+   */
+  get size(): number {
+    return this._size;
+  }
+
+  /**
+   * Finds the best match for the given URL.
+   * @param url The URL to match
+   * @returns The most specific matching route, or `null` if no route matches
+   */
+  match(url: URL | string): RouteMatch<T, P> | null {
+    if (typeof url === 'string') url = new URL(url);
+
+    for (const route of this._candidates(url)) {
+      const match = route.pattern.match(url);
+      if (match) return toRouteMatch(route, match);
+    }
+
+    return null;
+  }
+
+  /**
+   * Finds all matches for the given URL.
+   * @param url The URL to match
+   * @returns All matching routes, most specific first
+   */
+  matchAll(url: URL | string): Array<RouteMatch<T, P>> {
+    if (typeof url === 'string') url = new URL(url);
+
+    const matches: Array<RouteMatch<T, P>> = [];
+    for (const route of this._candidates(url)) {
+      const match = route.pattern.match(url);
+      if (match) matches.push(toRouteMatch(route, match));
+    }
+
+    return matches;
+  }
+
+  private _candidates(url: URL): Array<Route<T, P>> {
+    const pathname = url.pathname.slice(1);
+    const candidates = this._trie.lookup(pathname);
+
+    // Routes that ignore trailing slashes may be indexed under the other form of the pathname
+    if (this._trailingSlash && pathname !== '') {
+      const other = pathname.endsWith('/') ? pathname.slice(0, -1) : pathname + '/';
+      for (const route of this._trie.lookup(other)) {
+        if (route.pattern.trailingSlash !== 'strict' && !candidates.includes(route)) {
+          candidates.push(route);
+        }
+      }
+    }
+
+    return candidates.sort(
+      (a, b) => compareSpecificity(a.specificity, b.specificity) || a.id - b.id,
+    );
+  }
+}
+
+function toRouteMatch<T, P extends ParamValues>(
+  route: Route<T, P>,
+  match: Match<string, P>,
+): RouteMatch<T, P> {
+  const result: RouteMatch<T, P> = {
+    pattern: route.pattern,
+    handler: route.handler,
+    params: match.params,
+  };
+  if (match.redirect !== undefined) result.redirect = match.redirect;
+  return result;
+}
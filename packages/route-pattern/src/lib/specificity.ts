@@ -0,0 +1,93 @@
+import { ownsLeadingSlash, type Ast, type Part } from './parse.ts';
+
+export type Specificity = {
+  /**
+   * The rank of each pathname segment from the left, lower is more specific: `0` for static text,
+   * `1` for enums, `2` for params and `3` for globs. Segments in optionals are ranked as if the
+   * optional was there.
+   */
+  segments: number[];
+  globs: number;
+  params: number;
+  optionals: number;
+  enums: number;
+  text: number;
+  search: number;
+};
+
+export function specificity(ast: Ast): Specificity {
+  const result: Specificity = {
+    segments: ast.pathname ? rankSegments(ast.pathname) : [],
+    globs: 0,
+    params: 0,
+    optionals: 0,
+    enums: 0,
+    text: 0,
+    search: ast.search?.filter((param) => !param.optional).length ?? 0,
+  };
+  if (ast.protocol) countPart(ast.protocol, result);
+  if (ast.hostname) countPart(ast.hostname, result);
+  if (ast.port) countPart(ast.port, result);
+  if (ast.pathname) countPart(ast.pathname, result);
+  return result;
+}
+
+function countPart(part: Part, result: Specificity) {
+  for (const node of part) {
+    if (node.type === 'text') result.text += node.value.length;
+    if (node.type === 'param') result.params += 1;
+    if (node.type === 'glob') result.globs += 1;
+    if (node.type === 'enum') result.enums += 1;
+    if (node.type === 'optional') {
+      result.optionals += 1;
+      countPart(node.nodes, result);
+    }
+  }
+}
+
+const nodeRanks = { text: 0, enum: 1, param: 2, glob: 3 };
+
+function rankSegments(part: Part): number[] {
+  // The `/` at the start of a pathname like `(/:lang)` doesn't start a new segment
+  const segments = ownsLeadingSlash(part) ? [] : [0];
+  const visit = (nodes: Part) => {
+    for (const node of nodes) {
+      if (node.type === 'optional') {
+        visit(node.nodes);
+        continue;
+      }
+      if (node.type === 'text') {
+        // Every `/` starts a new segment
+        for (let i = 1; i < node.value.split('/').length; i++) segments.push(0);
+        continue;
+      }
+      const last = segments.length - 1;
+      segments[last] = Math.max(segments[last], nodeRanks[node.type]);
+    }
+  };
+  visit(part);
+  return segments;
+}
+
+/**
+ * Compares two specificities for sorting, most specific first. Pathname segments are compared
+ * from the left, so the first segment where one pattern has static text and the other a param
+ * decides. When the segments they both have are equally specific, patterns with fewer globs win,
+ * then fewer params, then fewer optionals, then fewer enums, then more static text, then more
+ * required search params.
+ */
+export function compareSpecificity(a: Specificity, b: Specificity): number {
+  const length = Math.min(a.segments.length, b.segments.length);
+  for (let i = 0; i < length; i++) {
+    if (a.segments[i] !== b.segments[i]) return a.segments[i] - b.segments[i];
+  }
+
+  return (
+    a.globs - b.globs ||
+    a.params - b.params ||
+    a.optionals - b.optionals ||
+    a.enums - b.enums ||
+    b.text - a.text ||
+    b.search - a.search
+  );
+}
@@ -4,9 +4,18 @@ import { describe, it } from 'node:test';
 import { split } from './split.ts';
 
 describe('split', () => {
-  it('splits route patterns into protocol, hostname, pathname, search', () => {
+  it('splits route patterns into protocol, hostname, port, pathname, search', () => {
     const cases: Array<
-      [string, { protocol?: string; hostname?: string; pathname?: string; search?: string }]
+      [
+        string,
+        {
+          protocol?: string;
+          hostname?: string;
+          port?: string;
+          pathname?: string;
+          search?: string;
+        },
+      ]
     > = [
       [
         'http(s)://(*host.:sub.)remix.run/products(/:id/v:version)/*?q=1',
@@ -35,12 +44,43 @@ describe('split', () => {
         },
       ],
 
+      [
+        '(https://)host.com/path',
+        { protocol: '(https://)', hostname: 'host.com', pathname: 'path' },
+      ],
+      ['(:protocol://)host.com', { protocol: '(:protocol://)', hostname: 'host.com' }],
+
       // hostname + ...
       ['://host.com', { hostname: 'host.com' }],
       ['://host.com/path/:id', { hostname: 'host.com', pathname: 'path/:id' }],
       ['://host.com?q=1', { hostname: 'host.com', search: 'q=1' }],
       ['://host.com/path/:id?q=1', { hostname: 'host.com', pathname: 'path/:id', search: 'q=1' }],
 
+      // port + ...
+      ['http://localhost:3000', { protocol: 'http', hostname: 'localhost', port: '3000' }],
+      [
+        'http://localhost:3000/api?q=1',
+        { protocol: 'http', hostname: 'localhost', port: '3000', pathname: 'api', search: 'q=1' },
+      ],
+      ['://localhost::port/api', { hostname: 'localhost', port: ':port', pathname: 'api' }],
+      ['://localhost::port<int>', { hostname: 'localhost', port: ':port<int>' }],
+      ['://localhost:*', { hostname: 'localhost', port: '*' }],
+      ['://:host::port', { hostname: ':host', port: ':port' }],
+      ['://:3000/api', { port: '3000', pathname: 'api' }],
+      ['://localhost(:3000)/api', { hostname: 'localhost', port: '(:3000)', pathname: 'api' }],
+      ['://(:sub.)example.com(::port)', { hostname: '(:sub.)example.com', port: '(::port)' }],
+      ['://(:3000)', { port: '(:3000)' }],
+      ['://:sub.example.com', { hostname: ':sub.example.com' }],
+      ['://:tenant', { hostname: ':tenant' }],
+      ['://example\\:3000', { hostname: 'example\\:3000' }],
+      ['://host.com(/:lang)', { hostname: 'host.com', pathname: '(/:lang)' }],
+      ['://host.com(/:lang)/docs', { hostname: 'host.com', pathname: '(/:lang)/docs' }],
+      [
+        '://localhost(:3000)(/:lang)',
+        { hostname: 'localhost', port: '(:3000)', pathname: '(/:lang)' },
+      ],
+      ['://host.com\\(/x)', { hostname: 'host.com\\(', pathname: 'x)' }],
+
       // pathname + ...
       ['path/:id', { pathname: 'path/:id' }],
       ['path/:id?q=1', { pathname: 'path/:id', search: 'q=1' }],
@@ -51,8 +91,13 @@ describe('split', () => {
 
     for (const [input, expected] of cases) {
       const spans = split(input);
-      const result: { protocol?: string; hostname?: string; pathname?: string; search?: string } =
-        {};
+      const result: {
+        protocol?: string;
+        hostname?: string;
+        port?: string;
+        pathname?: string;
+        search?: string;
+      } = {};
 
       if (spans.protocol) {
         result.protocol = input.slice(...spans.protocol);
@@ -60,6 +105,9 @@ describe('split', () => {
       if (spans.hostname) {
         result.hostname = input.slice(...spans.hostname);
       }
+      if (spans.port) {
+        result.port = input.slice(...spans.port);
+      }
       if (spans.pathname) {
         result.pathname = input.slice(...spans.pathname);
       }
@@ -4,6 +4,7 @@ export function split(source: string) {
   const result: {
     protocol?: Span;
     hostname?: Span;
+    port?: Span;
     pathname?: Span;
     search?: Span;
   } = {};
@@ -19,19 +20,38 @@ export function split(source: string) {
   const solidus = source.indexOf('://');
   if (solidus !== -1) {
     // protocol
-    if (solidus !== 0) {
-      result.protocol = [0, solidus];
+    if (source[0] === '(' && source[solidus + 3] === ')') {
+      // Optional protocols keep their `(` and `://)`
+      result.protocol = [0, solidus + 4];
+      index = solidus + 4;
+    } else {
+      if (solidus !== 0) result.protocol = [0, solidus];
+      index = solidus + 3;
     }
-    index = solidus + 3;
 
-    // hostname
-    const hostnameEnd = source.indexOf('/', index);
-    if (hostnameEnd === -1) {
-      result.hostname = [index, source.length];
-      return result;
+    // hostname + port
+    let hostnameEnd = source.indexOf('/', index);
+    if (hostnameEnd === -1) hostnameEnd = source.length;
+    let pathnameStart = hostnameEnd + 1;
+    // An optional that starts with the `/` before the pathname, like `(/:lang)`, belongs to the
+    // pathname
+    const slashOptional = source[hostnameEnd - 1] === '(' && source[hostnameEnd - 2] !== '\\';
+    if (hostnameEnd !== source.length && slashOptional) {
+      hostnameEnd -= 1;
+      pathnameStart = hostnameEnd;
     }
-    result.hostname = [index, hostnameEnd];
-    index = hostnameEnd + 1;
+    const portStart = findPortStart(source, index, hostnameEnd);
+    if (portStart === -1) {
+      result.hostname = [index, hostnameEnd];
+    } else {
+      // Optional ports keep their `(:` and `)`, other ports come after a `:`
+      const hostEnd = source[portStart] === '(' ? portStart : portStart - 1;
+      // `://:3000` matches any hostname on port 3000
+      if (hostEnd !== index) result.hostname = [index, hostEnd];
+      result.port = [portStart, hostnameEnd];
+    }
+    if (hostnameEnd === source.length) return result;
+    index = pathnameStart;
   }
 
   // pathname
@@ -41,3 +61,26 @@ export function split(source: string) {
 
   return result;
 }
+
+// A port comes after a `:` at the end of the host, and is either digits (`localhost:3000`), a
+// param (`localhost::port`) or a glob (`localhost:*`)
+const portRE = /^(?:\d+|:[^.:]*|\*[^.:]*)$/;
+
+/**
+ * Finds the start of the port in the host, after the `:` that separates it from the hostname, or
+ * at the `(` of an optional port like `localhost(:3000)`. Returns -1 if the host does not have a
+ * port.
+ */
+function findPortStart(source: string, start: number, end: number): number {
+  for (let i = start; i < end; i++) {
+    if (source[i] === '\\') {
+      i += 1;
+      continue;
+    }
+    if (source[i] === ':' && portRE.test(source.slice(i + 1, end))) return i + 1;
+    if (source.startsWith('(:', i) && source[end - 1] === ')') {
+      if (portRE.test(source.slice(i + 2, end - 1))) return i;
+    }
+  }
+  return -1;
+}
@@ -0,0 +1,142 @@
+import * as assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+
+import { parse, type Ast } from './parse.ts';
+import { RoutePattern } from './route-pattern.ts';
+import { stringify } from './stringify.ts';
+
+describe('stringify', () => {
+  const normalizeTests = [
+    // already normalized
+    { source: 'users/:id', expected: 'users/:id' },
+    { source: 'files/*path', expected: 'files/*path' },
+    { source: 'api(/v:major.:minor)', expected: 'api(/v:major.:minor)' },
+    { source: 'images/:name.{jpg,png}', expected: 'images/:name.{jpg,png}' },
+    { source: 'users/:id<int>', expected: 'users/:id<int>' },
+    { source: 'https://:sub.example.com/x', expected: 'https://:sub.example.com/x' },
+    { source: '://example.com:8080', expected: '://example.com:8080' },
+    { source: '://localhost::port/x', expected: '://localhost::port/x' },
+    { source: '://:3000', expected: '://:3000' },
+    { source: 'search?q=:query', expected: 'search?q=:query' },
+    { source: 'docs(/:version(/:page))', expected: 'docs(/:version(/:page))' },
+    { source: '://localhost(:3000)/api', expected: '://localhost(:3000)/api' },
+    { source: '://(:sub.)example.com(::port)', expected: '://(:sub.)example.com(::port)' },
+    { source: '(https://)example.com', expected: '(https://)example.com' },
+    { source: '(https)://example.com', expected: '(https://)example.com' },
+    { source: '://example.com(/:lang)/docs', expected: '://example.com(/:lang)/docs' },
+    { source: '://example.com/(/:lang)', expected: '://example.com(/:lang)' },
+    // escapes
+    { source: 'a\\b\\c', expected: 'abc' },
+    { source: 'time\\:now', expected: 'time\\:now' },
+    { source: 'wildcard\\*', expected: 'wildcard\\*' },
+    { source: 'a\\{b\\}\\(c\\)\\\\', expected: 'a\\{b\\}\\(c\\)\\\\' },
+    { source: ':id\\_x', expected: ':id\\_x' },
+    { source: ':id\\<int>', expected: ':id\\<int>' },
+    { source: ':id<int>\\<', expected: ':id<int><' },
+    { source: ':id\\-x', expected: ':id-x' },
+    { source: '*\\1', expected: '*1' },
+    { source: '*\\a', expected: '*\\a' },
+    // search params
+    { source: 'search?b=2&a=1', expected: 'search?a=1&b=2' },
+    { source: 'search?tags=b&tags=a', expected: 'search?tags=a&tags=b' },
+    {
+      source: 'search?(page=:page)&sort=*sorts&preview',
+      expected: 'search?(page=:page)&preview&sort=*sorts',
+    },
+    { source: 'search?q=hello%20world', expected: 'search?q=hello+world' },
+    { source: 'search?q=a%2Ab', expected: 'search?q=a\\*b' },
+    { source: 'search?q=&a', expected: 'search?a&q=' },
+    { source: 'search?', expected: 'search' },
+  ];
+
+  normalizeTests.forEach(({ source, expected }) => {
+    it(`normalizes ${JSON.stringify(source)}`, () => {
+      assert.equal(stringify(parse(source)), expected);
+    });
+  });
+
+  it('merges adjacent text nodes', () => {
+    const ast: Ast = {
+      pathname: [
+        { type: 'text', value: 'users/' },
+        { type: 'text', value: ':' },
+        { type: 'param', name: 'id' },
+      ],
+    };
+    assert.equal(stringify(ast), 'users/\\::id');
+  });
+
+  it('escapes text that would continue a param name', () => {
+    const ast: Ast = {
+      pathname: [
+        { type: 'param', name: 'id' },
+        { type: 'text', value: '2' },
+      ],
+    };
+    assert.equal(stringify(ast), ':id\\2');
+    assert.deepEqual(parse(stringify(ast)), ast);
+  });
+
+  it('throws for unknown nodes', () => {
+    const ast = { pathname: [{ type: 'regexp' }] } as unknown as Ast;
+    assert.throws(() => stringify(ast), /Node with unknown type/);
+  });
+
+  const roundTripSources = [
+    'users/:id',
+    'blog/:year/:slug(.:ext)',
+    '://:tenant.example.com/admin/*path',
+    'http(s)://example.com::port/api',
+    'files/\\:\\*\\(\\)\\{\\}/:name',
+    ':a\\b:c\\<d>',
+    'search?preview&q=a%26b%3Dc&tags=*tags&(x=:x<int>)',
+  ];
+
+  roundTripSources.forEach((source) => {
+    it(`round trips ${JSON.stringify(source)}`, () => {
+      const normalized = stringify(parse(source));
+      assert.deepEqual(parse(normalized), parse(source));
+      assert.equal(stringify(parse(normalized)), normalized);
+    });
+  });
+});
+
+describe('RoutePattern serialization', () => {
+  it('returns the normalized source from toString()', () => {
+    const pattern = new RoutePattern('users/\\a:id?sort=:sort&(page=:page)');
+    assert.equal(pattern.source, 'users/\\a:id?sort=:sort&(page=:page)');
+    assert.equal(pattern.toString(), 'users/a:id?(page=:page)&sort=:sort');
+    assert.equal(`${pattern}`, 'users/a:id?(page=:page)&sort=:sort');
+  });
+
+  it('serializes the AST to JSON', () => {
+    const pattern = new RoutePattern('users/:id<int>');
+    assert.equal(
+      JSON.stringify(pattern),
+      JSON.stringify({
+        pathname: [
+          { type: 'text', value: 'users/' },
+          { type: 'param', name: 'id', typeName: 'int' },
+        ],
+      }),
+    );
+  });
+
+  it('does not expose the AST of the pattern', () => {
+    const pattern = new RoutePattern('users/:id');
+    pattern.toJSON().pathname!.length = 0;
+    assert.deepEqual(pattern.match('https://example.com/users/1'), { params: { id: '1' } });
+  });
+
+  it('creates patterns from JSON', () => {
+    const hex = { pattern: /[0-9a-f]+/, parse: (value: string) => parseInt(value, 16) };
+    const original = new RoutePattern('://:tenant.example.com/users/:id<hex>', { types: { hex } });
+    const json = JSON.stringify(original);
+    const pattern = RoutePattern.fromJSON(JSON.parse(json), { types: { hex } });
+
+    assert.equal(pattern.source, '://:tenant.example.com/users/:id<hex>');
+    assert.deepEqual(pattern.match('https://acme.example.com/users/ff'), {
+      params: { tenant: 'acme', id: 255 },
+    });
+  });
+});
@@ -0,0 +1,116 @@
+import { ownsLeadingSlash, type Ast, type Part, type SearchParam, type Text } from './parse.ts';
+
+/**
+ * Serializes a pattern AST back into a pattern source. The result is normalized: special
+ * characters are escaped the same way every time, adjacent text is merged, and search params are
+ * sorted by key. Parsing the result gives back the same AST.
+ */
+export function stringify(ast: Ast): string {
+  let source = '';
+
+  if (ast.protocol || ast.hostname || ast.port) {
+    source += ast.protocol ? stringifyProtocol(ast.protocol) : '://';
+    if (ast.hostname) source += stringifyPart(ast.hostname);
+    if (ast.port) source += stringifyPort(ast.port);
+    // Pathnames like `(/:lang)` start with their own `/`
+    if (ast.pathname && !ownsLeadingSlash(ast.pathname)) source += '/';
+  }
+
+  if (ast.pathname) source += stringifyPart(ast.pathname);
+
+  if (ast.search && ast.search.length > 0) {
+    const search = ast.search
+      .map((param) => ({ key: param.key, source: stringifySearchParam(param) }))
+      .sort((a, b) => compareStrings(a.key, b.key) || compareStrings(a.source, b.source));
+    source += '?' + search.map((param) => param.source).join('&');
+  }
+
+  return source;
+}
+
+function stringifyPart(part: Part): string {
+  let source = '';
+
+  for (let i = 0; i < part.length; i++) {
+    const node = part[i];
+
+    if (node.type === 'text') {
+      // Merge adjacent text so it is escaped as a whole
+      const previous = part[i - 1];
+      let text = node.value;
+      while (part[i + 1]?.type === 'text') {
+        i += 1;
+        text += (part[i] as Text).value;
+      }
+      source += escapeText(text, previous);
+    } else if (node.type === 'param') {
+      source += ':' + (node.name ?? '');
+      if (node.typeName !== undefined) source += `<${node.typeName}>`;
+    } else if (node.type === 'glob') {
+      source += '*' + (node.name ?? '');
+    } else if (node.type === 'enum') {
+      source += `{${node.members.join(',')}}`;
+    } else if (node.type === 'optional') {
+      source += `(${stringifyPart(node.nodes)})`;
+    } else {
+      throw new Error(`Node with unknown type: ${JSON.stringify(node)}`);
+    }
+  }
+
+  return source;
+}
+
+// Optional protocols are written like `(https://)`
+function stringifyProtocol(protocol: Part): string {
+  if (protocol.length === 1 && protocol[0].type === 'optional') {
+    return `(${stringifyPart(protocol[0].nodes)}://)`;
+  }
+  return stringifyPart(protocol) + '://';
+}
+
+// Optional ports are written like `(:3000)`, since `:(3000)` is not a port
+function stringifyPort(port: Part): string {
+  if (port.length === 1 && port[0].type === 'optional') {
+    return `(:${stringifyPart(port[0].nodes)})`;
+  }
+  return ':' + stringifyPart(port);
+}
+
+function stringifySearchParam(param: SearchParam): string {
+  let source = encodeSearch(param.key);
+
+  const { value } = param;
+  if (value?.type === 'text') source += '=' + escapeText(encodeSearch(value.value));
+  if (value?.type === 'param' || value?.type === 'glob') source += '=' + stringifyPart([value]);
+
+  return param.optional ? `(${source})` : source;
+}
+
+// Characters that start a param, glob, enum or optional, or an escape
+const specialCharsRE = /[\\:*{}()]/g;
+
+/**
+ * Escapes text so that it parses back into the same text. Text right after a param or glob also
+ * has its first character escaped if it would otherwise be read as part of the name or type.
+ */
+function escapeText(text: string, previous?: Part[number]): string {
+  const escaped = text.replace(specialCharsRE, '\\$&');
+
+  if (previous?.type === 'param' || previous?.type === 'glob') {
+    const continuesName = previous.name === undefined ? /^[a-zA-Z_$]/ : /^[a-zA-Z_$0-9]/;
+    const startsType =
+      previous.type === 'param' && previous.typeName === undefined && escaped.startsWith('<');
+    if (continuesName.test(escaped) || startsType) return '\\' + escaped;
+  }
+
+  return escaped;
+}
+
+// The inverse of `decodeSearch()` in parse.ts
+function encodeSearch(text: string): string {
+  return new URLSearchParams([['_', text]]).toString().slice(2);
+}
+
+function compareStrings(a: string, b: string): number {
+  return a < b ? -1 : a > b ? 1 : 0;
+}
@@ -0,0 +1,82 @@
+import * as assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+
+import { parse } from './parse.ts';
+import { RouteTrie } from './trie.ts';
+
+function createTrie(patterns: Array<string>) {
+  const trie = new RouteTrie<string>();
+  for (const pattern of patterns) trie.insert(parse(pattern), pattern);
+  return trie;
+}
+
+describe('RouteTrie', () => {
+  const lookupTests = [
+    {
+      name: 'finds static patterns',
+      patterns: ['users', 'posts', 'users/new'],
+      pathname: 'users',
+      expected: ['users'],
+    },
+    {
+      name: 'finds nested static patterns',
+      patterns: ['users', 'posts', 'users/new'],
+      pathname: 'users/new',
+      expected: ['users/new'],
+    },
+    {
+      name: 'finds dynamic patterns under a static prefix',
+      patterns: ['users/:id', 'posts/:id', 'users/new'],
+      pathname: 'users/123',
+      expected: ['users/:id'],
+    },
+    {
+      name: 'finds dynamic patterns along the whole path',
+      patterns: ['*', 'users/*', 'users/:id/posts', 'posts/:id'],
+      pathname: 'users/123/posts',
+      expected: ['*', 'users/*', 'users/:id/posts'],
+    },
+    {
+      name: 'stops at partially static segments',
+      patterns: ['users/@:id', 'users/new'],
+      pathname: 'users/@sarah',
+      expected: ['users/@:id'],
+    },
+    {
+      name: 'stops at optionals',
+      patterns: ['api(/v:version)/users', 'about'],
+      pathname: 'api/v2/users',
+      expected: ['api(/v:version)/users'],
+    },
+    {
+      name: 'finds patterns without a pathname at the root',
+      patterns: ['://example.com', 'users'],
+      pathname: '',
+      expected: ['://example.com'],
+    },
+    {
+      name: 'distinguishes trailing slashes',
+      patterns: ['users', 'users/'],
+      pathname: 'users/',
+      expected: ['users/'],
+    },
+    {
+      name: 'ignores case',
+      patterns: ['Users/New', 'users/:id'],
+      pathname: 'USERS/new',
+      expected: ['users/:id', 'Users/New'],
+    },
+    {
+      name: 'returns nothing for unknown paths',
+      patterns: ['users', 'users/:id'],
+      pathname: 'posts/123',
+      expected: [],
+    },
+  ];
+
+  lookupTests.forEach(({ name, patterns, pathname, expected }) => {
+    it(name, () => {
+      assert.deepEqual(createTrie(patterns).lookup(pathname), expected);
+    });
+  });
+});
@@ -0,0 +1,89 @@
+import type { Ast, Part } from './parse.ts';
+
+type TrieNode<T> = {
+  children: Map<string, TrieNode<T>>;
+  // values whose pathname is exactly the static segments leading to this node
+  exact: Array<T>;
+  // values whose pathname starts with the static segments leading to this node
+  dynamic: Array<T>;
+};
+
+function createNode<T>(): TrieNode<T> {
+  return { children: new Map(), exact: [], dynamic: [] };
+}
+
+/**
+ * A trie of pathname segments. Each pattern is indexed by the static segments at the start of its
+ * pathname, so a lookup only visits the nodes along a single path through the trie instead of
+ * every pattern. Lookups return candidates that still need to be verified with a full match.
+ *
+ * Segments are compared case-insensitively so patterns that ignore case are found too.
+ */
+export class RouteTrie<T> {
+  private readonly _root: TrieNode<T> = createNode();
+
+  insert(ast: Ast, value: T): void {
+    const { segments, exact } = staticSegments(ast.pathname);
+
+    let node = this._root;
+    for (const segment of segments) {
+      let child = node.children.get(segment);
+      if (!child) {
+        child = createNode();
+        node.children.set(segment, child);
+      }
+      node = child;
+    }
+
+    if (exact) {
+      node.exact.push(value);
+    } else {
+      node.dynamic.push(value);
+    }
+  }
+
+  /**
+   * @param pathname A URL pathname, without the leading `/`
+   * @returns All values that may match the pathname
+   */
+  lookup(pathname: string): Array<T> {
+    const segments = pathname.toLowerCase().split('/');
+    const result: Array<T> = [];
+
+    let node: TrieNode<T> | undefined = this._root;
+    for (const segment of segments) {
+      result.push(...node.dynamic);
+      node = node.children.get(segment);
+      if (!node) return result;
+    }
+    result.push(...node.dynamic, ...node.exact);
+
+    return result;
+  }
+}
+
+/**
+ * Splits the static text at the start of a pathname into complete segments. `exact` is true when
+ * the whole pathname is static.
+ */
+function staticSegments(pathname: Part | undefined): { segments: Array<string>; exact: boolean } {
+  // A pattern without a pathname only matches the empty pathname
+  if (!pathname) return { segments: [''], exact: true };
+
+  const segments: Array<string> = [];
+  let segment = '';
+  for (const node of pathname) {
+    if (node.type !== 'text') return { segments, exact: false };
+    for (const char of node.value) {
+      if (char === '/') {
+        segments.push(segment);
+        segment = '';
+      } else {
+        segment += char.toLowerCase();
+      }
+    }
+  }
+  segments.push(segment);
+
+  return { segments, exact: true };
+}
@@ -1 +1,37 @@
-export { RoutePattern } from './lib/route-pattern.ts';
+export { type Analysis, type AnalyzeOptions, analyzePatterns } from './lib/analyze.ts';
+export {
+  type HrefParams,
+  type HrefSearchParams,
+  InvalidParamValueError,
+  MissingParamError,
+} from './lib/href.ts';
+export {
+  type ParamType,
+  type ParamTypes,
+  type ParamValues,
+  type DefaultParamValues,
+} from './lib/param-types.ts';
+export {
+  type Ast,
+  type ParseErrorCode,
+  type Part,
+  type PartName,
+  type SearchParam,
+  RoutePatternParseError,
+} from './lib/parse.ts';
+export {
+  type Match,
+  type Params,
+  type RoutePatternOptions,
+  type TrailingSlash,
+  RoutePattern,
+} from './lib/route-pattern.ts';
+export {
+  type FailedConstraint,
+  type HeaderPredicate,
+  type RequestMatch,
+  type RequestMismatch,
+  type RequestPatternOptions,
+  RequestPattern,
+} from './lib/request-pattern.ts';
+export { type RouteMatch, type RouterOptions, Router } from './lib/router.ts';